@@ -1,6 +1,8 @@
 import Gio from 'gi://Gio';
 import GLib from 'gi://GLib';
 import { Extension } from 'resource:///org/gnome/shell/extensions/extension.js';
+import { AccentSyncDBusService, type ConnectionState, formatHexColor } from './src/dbus.js';
+import { migrateLegacyStableIds } from './src/migration.js';
 import { NotificationUrgency, showExtensionNotification } from './src/notification.js';
 import {
   formatErrorMessage,
@@ -8,7 +10,14 @@ import {
   OpenRGBConnectionError,
   OpenRGBTimeoutError,
 } from './src/openrgb/errors.js';
-import { OpenRGBClient } from './src/openrgb/index.js';
+import {
+  type Device,
+  DeviceType,
+  formatServerAddress,
+  gioPlatform,
+  OpenRGBClient,
+  parseServerAddress,
+} from './src/openrgb/index.js';
 import type { RGBColor } from './src/openrgb/types.js';
 import {
   ACCENT_COLOR_MAP,
@@ -34,10 +43,18 @@ export default class OpenRGBAccentSyncExtension
   public accentColorSignal: SignalId | null = null;
   public accentColorSignal2: SignalId | null = null;
   public nightLightSignal: SignalId | null = null;
+  public devicesAddedHandler: SignalId | null = null;
+  public devicesRemovedHandler: SignalId | null = null;
+  public disconnectedHandler: SignalId | null = null;
+  public persistColorDevicesSignal: SignalId | null = null;
+  public syncEnabledSignal: SignalId | null = null;
+  public slowModeSwitchSignal: SignalId | null = null;
 
   // Timer management
   public periodicCheckTimer: TimerId | null = null;
   public reconnectionTimer: TimerId | null = null;
+  public connectPromise: Promise<void> | null = null;
+  public persistInFlight: Promise<void> = Promise.resolve();
   public syncTimeouts: Set<TimerId> = new Set();
 
   // Reconnection state
@@ -48,6 +65,7 @@ export default class OpenRGBAccentSyncExtension
 
   // Sync state
   public syncInProgress: boolean = false;
+  public loadedProfile: string | null = null;
 
   // Color change queue
   public colorChangeQueue: RGBColor[] = [];
@@ -57,6 +75,14 @@ export default class OpenRGBAccentSyncExtension
   public nightLightDBusProxy: Gio.DBusProxy | null = null;
   public isNightLightActive: boolean = false;
 
+  // Session bus interface and the state only it controls
+  public dbusService: AccentSyncDBusService | null = null;
+  public overrideColor: RGBColor | null = null;
+  public overrideTimer: TimerId | null = null;
+  public paused: boolean = false;
+  public lastError: string | null = null;
+  public serverAddress: string | null = null;
+
   public override enable(): void {
     console.log('OpenRGB Accent Sync: Extension enabled');
 
@@ -95,7 +121,41 @@ export default class OpenRGBAccentSyncExtension
     const host = this.settings.get_string('openrgb-host') || ExtensionConstants.DEFAULT_HOST;
     const port = this.settings.get_int('openrgb-port') || ExtensionConstants.DEFAULT_PORT;
 
-    this.openrgbClient = new OpenRGBClient(host, port, ExtensionConstants.DEFAULT_CLIENT_NAME);
+    this.openrgbClient = new OpenRGBClient(
+      gioPlatform,
+      host,
+      port,
+      ExtensionConstants.DEFAULT_CLIENT_NAME,
+    );
+    const server = parseServerAddress(host, port);
+    this.serverAddress = formatServerAddress(server.host, server.port);
+    this.openrgbClient.setSlowModeSwitchDevices(this.settings.get_strv('slow-mode-switch-devices'));
+    this.monitorDeviceList(this.openrgbClient);
+    this.monitorConnection(this.openrgbClient);
+
+    this.persistColorDevicesSignal = this.settings.connect('changed::persist-color-devices', () => {
+      if (this.lastKnownColor) {
+        this.persistAccentColor(this.lastKnownColor).catch((error: unknown) => {
+          console.error(
+            'OpenRGB Accent Sync: Failed to save color to onboard memory:',
+            formatErrorMessage(error),
+          );
+        });
+      }
+    });
+
+    this.syncEnabledSignal = this.settings.connect('changed::sync-enabled', () => {
+      this.handleSyncEnabledChange();
+    });
+
+    this.slowModeSwitchSignal = this.settings.connect('changed::slow-mode-switch-devices', () => {
+      this.openrgbClient?.setSlowModeSwitchDevices(
+        this.settings?.get_strv('slow-mode-switch-devices') ?? [],
+      );
+    });
+
+    this.dbusService = new AccentSyncDBusService(this);
+    this.dbusService.export(Gio.DBus.session);
 
     this.initializeOpenRGB();
     this.monitorAccentColor();
@@ -109,6 +169,21 @@ export default class OpenRGBAccentSyncExtension
 
     this.clearAllTimeouts();
 
+    if (this.dbusService) {
+      this.dbusService.unexport();
+      this.dbusService = null;
+    }
+
+    if (this.overrideTimer) {
+      GLib.source_remove(this.overrideTimer);
+      this.overrideTimer = null;
+    }
+    this.overrideColor = null;
+    this.paused = false;
+    this.lastError = null;
+    this.serverAddress = null;
+    this.connectPromise = null;
+
     if (this.periodicCheckTimer) {
       GLib.source_remove(this.periodicCheckTimer);
       this.periodicCheckTimer = null;
@@ -164,10 +239,37 @@ export default class OpenRGBAccentSyncExtension
     }
 
     if (this.openrgbClient) {
-      this.openrgbClient.disconnect();
+      if (this.devicesAddedHandler) {
+        this.openrgbClient.off(this.devicesAddedHandler);
+        this.devicesAddedHandler = null;
+      }
+      if (this.devicesRemovedHandler) {
+        this.openrgbClient.off(this.devicesRemovedHandler);
+        this.devicesRemovedHandler = null;
+      }
+      if (this.disconnectedHandler) {
+        this.openrgbClient.off(this.disconnectedHandler);
+        this.disconnectedHandler = null;
+      }
+      this.restoreProfileAndDisconnect(this.openrgbClient);
       this.openrgbClient = null;
     }
 
+    if (this.settings && this.persistColorDevicesSignal) {
+      this.settings.disconnect(this.persistColorDevicesSignal);
+      this.persistColorDevicesSignal = null;
+    }
+
+    if (this.settings && this.syncEnabledSignal) {
+      this.settings.disconnect(this.syncEnabledSignal);
+      this.syncEnabledSignal = null;
+    }
+
+    if (this.settings && this.slowModeSwitchSignal) {
+      this.settings.disconnect(this.slowModeSwitchSignal);
+      this.slowModeSwitchSignal = null;
+    }
+
     this.settings = null;
     this.lastKnownColor = null;
     this.lastAppliedDeviceColor = null;
@@ -181,6 +283,116 @@ export default class OpenRGBAccentSyncExtension
     }
 
     this.reconnectionAttempts = 0;
+    this.loadedProfile = null;
+  }
+
+  /**
+   * Hand the devices back to the user's OpenRGB profile, if one is configured,
+   * before dropping the connection. disable() cannot wait, so this finishes in
+   * the background with its own reference to the client.
+   */
+  public restoreProfileAndDisconnect(client: OpenRGBClient): void {
+    const profile = this.settings?.get_string('extension-disabled-profile') ?? '';
+    if (!profile || !client.connected) {
+      client.disconnect();
+      return;
+    }
+
+    console.log(`OpenRGB Accent Sync: Restoring OpenRGB profile "${profile}"`);
+    client
+      .loadProfile(profile)
+      .catch((error: unknown) => {
+        console.warn(
+          `OpenRGB Accent Sync: Failed to restore profile "${profile}":`,
+          formatErrorMessage(error),
+        );
+      })
+      .finally(() => client.disconnect());
+  }
+
+  public async handleSyncEnabledChange(): Promise<void> {
+    if (!this.settings) {
+      return;
+    }
+
+    if (!this.settings.get_boolean('sync-enabled')) {
+      console.log('OpenRGB Accent Sync: Sync disabled');
+      if (await this.ensureOpenRGBConnection()) {
+        await this.loadSyncDisabledProfile();
+      }
+      return;
+    }
+
+    // applyColorChange switches devices back from a loaded profile to direct mode
+    console.log('OpenRGB Accent Sync: Sync enabled');
+    this.syncCurrentAccentColor();
+  }
+
+  /**
+   * A loaded profile moves devices out of direct mode; rediscovery switches them back
+   */
+  public async restoreDirectModeAfterProfile(): Promise<void> {
+    if (!this.loadedProfile || !this.openrgbClient?.connected) {
+      return;
+    }
+
+    try {
+      await this.openrgbClient.discoverDevices();
+      this.lastAppliedDeviceColor = null;
+    } catch (error: unknown) {
+      console.warn(
+        'OpenRGB Accent Sync: Failed to restore direct mode after profile:',
+        formatErrorMessage(error),
+      );
+    }
+    this.loadedProfile = null;
+  }
+
+  /**
+   * OpenRGB profile mapped to the current accent name, when profile mapping is on
+   */
+  public getAccentProfile(): string | null {
+    if (!this.settings?.get_boolean('accent-profiles-enabled')) {
+      return null;
+    }
+
+    try {
+      const desktopSettings = new Gio.Settings({
+        schema_id: ExtensionConstants.DESKTOP_INTERFACE_SCHEMA,
+      });
+      const accentName = desktopSettings.get_string(ExtensionConstants.ACCENT_COLOR_KEY);
+      const profiles = this.settings.get_value('accent-profiles').deep_unpack() as Record<
+        string,
+        string
+      >;
+      return profiles[accentName] || null;
+    } catch (error: unknown) {
+      console.warn(
+        'OpenRGB Accent Sync: Failed to read accent profiles:',
+        formatErrorMessage(error),
+      );
+      return null;
+    }
+  }
+
+  public async loadSyncDisabledProfile(): Promise<void> {
+    const profile = this.settings?.get_string('sync-disabled-profile') ?? '';
+    if (!profile || !this.openrgbClient) {
+      return;
+    }
+
+    try {
+      await this.openrgbClient.loadProfile(profile);
+      this.loadedProfile = profile;
+      console.log(
+        `OpenRGB Accent Sync: Loaded OpenRGB profile "${profile}" while sync is disabled`,
+      );
+    } catch (error: unknown) {
+      console.warn(
+        `OpenRGB Accent Sync: Failed to load profile "${profile}":`,
+        formatErrorMessage(error),
+      );
+    }
   }
 
   public addTimeout(callback: TimeoutCallback, delay: number): TimerId {
@@ -199,16 +411,45 @@ export default class OpenRGBAccentSyncExtension
     this.syncTimeouts.clear();
   }
 
-  public async initializeOpenRGB(): Promise<void> {
+  /**
+   * Connect and discover devices. Callers arriving while an attempt is in
+   * flight share it, since a second connect() would tear the first one down.
+   */
+  public initializeOpenRGB(): Promise<void> {
+    if (!this.connectPromise) {
+      const attempt = this.connectOpenRGB().finally(() => {
+        if (this.connectPromise === attempt) {
+          this.connectPromise = null;
+        }
+      });
+      this.connectPromise = attempt;
+    }
+    return this.connectPromise;
+  }
+
+  public async connectOpenRGB(): Promise<void> {
+    const client = this.openrgbClient;
     try {
-      if (!this.openrgbClient) {
+      if (!client) {
         throw new Error('OpenRGB client not initialized');
       }
 
-      await this.openrgbClient.connect();
-      await this.openrgbClient.discoverDevices();
+      await client.connect();
+      // With set-direct-mode-on-update every color change switches modes itself
+      await client.discoverDevices({
+        setDirectMode: !this.settings?.get_boolean('set-direct-mode-on-update'),
+      });
+      if (this.openrgbClient !== client) {
+        return;
+      }
+      this.migrateLegacyStableIds();
       console.log('OpenRGB Accent Sync: OpenRGB initialized successfully');
       this.reconnectionAttempts = 0;
+      this.lastError = null;
+
+      if (!this.settings?.get_boolean('sync-enabled')) {
+        await this.loadSyncDisabledProfile();
+      }
 
       if (this.reconnectionTimer) {
         GLib.source_remove(this.reconnectionTimer);
@@ -217,7 +458,14 @@ export default class OpenRGBAccentSyncExtension
 
       this.syncCurrentAccentColor();
     } catch (error: unknown) {
+      // disable() dropped the client mid-connect; nothing is left to retry for
+      if (client && this.openrgbClient !== client) {
+        console.log('OpenRGB Accent Sync: Connection attempt abandoned after disable');
+        return;
+      }
+
       const errorMsg = formatErrorMessage(error);
+      this.lastError = errorMsg;
 
       if (isOpenRGBError(error)) {
         console.error(`OpenRGB Accent Sync: ${errorMsg}`);
@@ -226,11 +474,14 @@ export default class OpenRGBAccentSyncExtension
       }
 
       this.startReconnectionTimer();
+    } finally {
+      this.dbusService?.notifyStateChanged();
     }
   }
 
   public startReconnectionTimer(): void {
-    if (this.reconnectionTimer) {
+    // Nothing to reconnect once disable() has dropped the client
+    if (this.reconnectionTimer || !this.openrgbClient) {
       return;
     }
 
@@ -284,6 +535,11 @@ export default class OpenRGBAccentSyncExtension
 
     this.reconnectionAttempts = 0;
 
+    // Let an attempt in flight finish rather than disconnecting mid-discovery
+    if (this.connectPromise) {
+      await this.connectPromise;
+    }
+
     if (this.openrgbClient) {
       this.openrgbClient.disconnect();
     }
@@ -291,6 +547,262 @@ export default class OpenRGBAccentSyncExtension
     await this.initializeOpenRGB();
   }
 
+  public getConnectionState(): ConnectionState {
+    if (this.openrgbClient?.connected) {
+      return 'connected';
+    }
+    return this.reconnectionTimer ? 'reconnecting' : 'disconnected';
+  }
+
+  public getServerAddress(): string {
+    return this.serverAddress ?? '';
+  }
+
+  public getConnectedAddress(): string | null {
+    return this.openrgbClient?.getConnectedAddress() ?? null;
+  }
+
+  public getDevices(): Device[] {
+    return this.openrgbClient?.getDevices() ?? [];
+  }
+
+  /**
+   * Show a color other than the accent until cleared, or for expirySeconds when non-zero
+   */
+  public setOverrideColor(color: RGBColor | null, expirySeconds: number): void {
+    if (this.overrideTimer) {
+      GLib.source_remove(this.overrideTimer);
+      this.overrideTimer = null;
+    }
+
+    this.overrideColor = color;
+    if (color && expirySeconds > 0) {
+      this.overrideTimer = GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, expirySeconds, () => {
+        this.overrideTimer = null;
+        console.log('OpenRGB Accent Sync: Override color expired');
+        this.setOverrideColor(null, 0);
+        return GLib.SOURCE_REMOVE;
+      });
+    }
+
+    console.log(
+      color
+        ? `OpenRGB Accent Sync: Overriding accent with RGB(${color.r}, ${color.g}, ${color.b})`
+        : 'OpenRGB Accent Sync: Override color cleared',
+    );
+    this.dbusService?.notifyStateChanged();
+    this.syncCurrentAccentColor();
+  }
+
+  /**
+   * Stop applying accent changes; devices keep whatever they show now
+   */
+  public pause(): void {
+    console.log('OpenRGB Accent Sync: Sync paused');
+    this.paused = true;
+    this.dbusService?.notifyStateChanged();
+  }
+
+  public resume(): void {
+    console.log('OpenRGB Accent Sync: Sync resumed');
+    this.paused = false;
+    this.dbusService?.notifyStateChanged();
+    this.syncCurrentAccentColor();
+  }
+
+  /**
+   * Apply the current color again even when devices should already show it,
+   * e.g. after another OpenRGB client changed them
+   */
+  public resync(): void {
+    this.lastAppliedDeviceColor = null;
+    this.syncCurrentAccentColor();
+  }
+
+  public monitorDeviceList(client: OpenRGBClient): void {
+    // Devices plugged in later are only touched when live sync would write to them:
+    // not ignored, not paused, and no profile loaded that the accent would overwrite
+    client.setDeviceFilter((device) => {
+      this.migrateLegacyStableIds();
+      return (
+        !!this.settings?.get_boolean('sync-enabled') &&
+        !this.paused &&
+        !this.loadedProfile &&
+        !this.isDeviceIgnored(device)
+      );
+    });
+
+    this.devicesAddedHandler = client.on('devicesAdded', (devices) => {
+      const names = devices.map((device) => device.name).join(', ');
+      console.log(`OpenRGB Accent Sync: Devices added: ${names}`);
+      this.dbusService?.notifyStateChanged();
+      showExtensionNotification('OpenRGB devices added', {
+        body: names,
+        persistent: false,
+      });
+    });
+
+    this.devicesRemovedHandler = client.on('devicesRemoved', (devices) => {
+      const names = devices.map((device) => device.name).join(', ');
+      console.log(`OpenRGB Accent Sync: Devices removed: ${names}`);
+      this.dbusService?.notifyStateChanged();
+      showExtensionNotification('OpenRGB devices removed', {
+        body: names,
+        persistent: false,
+      });
+    });
+  }
+
+  public monitorConnection(client: OpenRGBClient): void {
+    // Reconnect as soon as the heartbeat or reader notices the server is gone,
+    // rather than waiting for the next sync to fail
+    this.disconnectedHandler = client.on('disconnected', (error) => {
+      console.warn(`OpenRGB Accent Sync: Connection lost (${error.message}), reconnecting`);
+      this.lastError = error.message;
+      this.dbusService?.notifyStateChanged();
+
+      if (this.reconnectionTimer) {
+        return;
+      }
+      this.reconnectionAttempts = 0;
+      this.initializeOpenRGB();
+    });
+  }
+
+  public getIgnoredStableIds(): string[] {
+    const ignoredDeviceJsons = this.settings ? this.settings.get_strv('ignored-devices') : [];
+
+    return ignoredDeviceJsons
+      .map((deviceJson) => {
+        try {
+          const device = JSON.parse(deviceJson);
+          return device.stableId;
+        } catch (error) {
+          console.warn('Failed to parse ignored device JSON:', deviceJson, error);
+          return null;
+        }
+      })
+      .filter((id): id is string => !!id);
+  }
+
+  /**
+   * Ignored one by one from preferences, or as part of an ignored device type
+   */
+  public isDeviceIgnored(device: Device): boolean {
+    const ignoredTypes = this.settings ? this.settings.get_strv('ignored-device-types') : [];
+    return (
+      this.getIgnoredStableIds().includes(device.stableId) ||
+      ignoredTypes.includes(DeviceType[device.type])
+    );
+  }
+
+  /**
+   * Save the accent into the onboard memory of devices opted in from preferences.
+   * Flash writes are slow and wear the hardware, so each color is only saved once;
+   * the saved colors are kept in settings because every screen lock disables us.
+   * Calls run one after another, so each sees what the previous one saved.
+   */
+  public persistAccentColor(color: RGBColor): Promise<void> {
+    const persist = this.persistInFlight
+      .catch(() => {})
+      .then(() => this.saveAccentToOnboardMemory(color));
+    this.persistInFlight = persist;
+    return persist;
+  }
+
+  private async saveAccentToOnboardMemory(color: RGBColor): Promise<void> {
+    const client = this.openrgbClient;
+    if (!this.settings?.get_boolean('sync-enabled') || !client?.connected) {
+      return;
+    }
+
+    // Saving ends in direct mode, which would undo a loaded profile; an override is
+    // temporary and must not end up in onboard memory
+    if (this.loadedProfile || this.paused || this.overrideColor) {
+      return;
+    }
+
+    const persistStableIds = this.settings.get_strv('persist-color-devices');
+    const persistedColors = this.getPersistedColors();
+    const hexColor = formatHexColor(color);
+    const savedDevices: Device[] = [];
+
+    for (const device of client.getDevices()) {
+      if (
+        !persistStableIds.includes(device.stableId) ||
+        this.isDeviceIgnored(device) ||
+        device.staticModeIndex === null
+      ) {
+        continue;
+      }
+
+      if (persistedColors[device.stableId] === hexColor) {
+        continue;
+      }
+
+      try {
+        await client.saveColorToDevice(device.stableId, color);
+        persistedColors[device.stableId] = hexColor;
+        savedDevices.push(device);
+        console.log(
+          `OpenRGB Accent Sync: Saved RGB(${color.r}, ${color.g}, ${color.b}) to ${device.name} onboard memory`,
+        );
+      } catch (error: unknown) {
+        console.warn(
+          `OpenRGB Accent Sync: Failed to save color to ${device.name}:`,
+          formatErrorMessage(error),
+        );
+      }
+    }
+
+    // disable() or a dropped connection may have come while saving
+    if (savedDevices.length === 0 || !this.settings || this.openrgbClient !== client) {
+      return;
+    }
+
+    // Devices opted out since their last save no longer need an entry
+    const keptColors = Object.fromEntries(
+      Object.entries(persistedColors).filter(([stableId]) => persistStableIds.includes(stableId)),
+    );
+    this.settings.set_value('persisted-colors', new GLib.Variant('a{ss}', keptColors));
+
+    // Saving leaves the LEDs showing the raw accent; restore what live sync last applied
+    // (e.g. the night light dimmed color)
+    if (this.lastAppliedDeviceColor && client.connected) {
+      await client.setDevicesColor(savedDevices, this.lastAppliedDeviceColor);
+    }
+  }
+
+  /**
+   * Move settings saved under stableIds of earlier releases to the current ids
+   */
+  public migrateLegacyStableIds(): void {
+    if (!this.settings || !this.openrgbClient) {
+      return;
+    }
+    if (migrateLegacyStableIds(this.settings, this.openrgbClient.getLegacyStableIds())) {
+      console.log('OpenRGB Accent Sync: Moved device settings to their current stableIds');
+    }
+  }
+
+  /**
+   * Colors last saved to device onboard memory, as #rrggbb by stableId
+   */
+  public getPersistedColors(): Record<string, string> {
+    try {
+      return (this.settings?.get_value('persisted-colors').deep_unpack() ?? {}) as Record<
+        string,
+        string
+      >;
+    } catch (error: unknown) {
+      console.warn(
+        'OpenRGB Accent Sync: Failed to read persisted colors:',
+        formatErrorMessage(error),
+      );
+      return {};
+    }
+  }
+
   public syncCurrentAccentColor(): void {
     try {
       console.log('OpenRGB Accent Sync: syncCurrentAccentColor called');
@@ -463,6 +975,7 @@ export default class OpenRGBAccentSyncExtension
         );
 
         await this.applyColorChange(targetColor);
+        await this.persistAccentColor(targetColor);
       }
     } catch (error: unknown) {
       console.error('OpenRGB Accent Sync: Error processing color queue:', error);
@@ -496,6 +1009,15 @@ export default class OpenRGBAccentSyncExtension
         return;
       }
 
+      if (this.paused) {
+        console.log('OpenRGB Accent Sync: Sync is paused, skipping color update');
+        return;
+      }
+
+      if (this.overrideColor) {
+        color = this.overrideColor;
+      }
+
       const nightLightModifiedColor = this.applyNightLightOpacity(color);
       if (nightLightModifiedColor) {
         console.log(
@@ -531,28 +1053,24 @@ export default class OpenRGBAccentSyncExtension
         throw new Error('OpenRGB client not available');
       }
 
-      const ignoredDeviceJsons = this.settings ? this.settings.get_strv('ignored-devices') : [];
+      // An override color replaces whatever the accent maps to, profiles included
+      const accentProfile = this.overrideColor ? null : this.getAccentProfile();
+      if (accentProfile) {
+        console.log(`OpenRGB Accent Sync: Accent is mapped to profile "${accentProfile}"`);
+        await this.openrgbClient.loadProfile(accentProfile);
+        this.loadedProfile = accentProfile;
+        return;
+      }
+      await this.restoreDirectModeAfterProfile();
 
-      const ignoredStableIds = ignoredDeviceJsons
-        .map((deviceJson) => {
-          try {
-            const device = JSON.parse(deviceJson);
-            return device.stableId;
-          } catch (error) {
-            console.warn('Failed to parse ignored device JSON:', deviceJson, error);
-            return null;
-          }
-        })
-        .filter((id): id is string => !!id);
+      const ignoredStableIds = this.getIgnoredStableIds();
 
       const allDevices = this.openrgbClient.getDevices();
 
-      const devicesToSync = allDevices.filter(
-        (device) => !ignoredStableIds.includes(device.stableId),
-      );
+      const devicesToSync = allDevices.filter((device) => !this.isDeviceIgnored(device));
 
       console.log(
-        `OpenRGB Accent Sync: Syncing ${devicesToSync.length} devices (${ignoredStableIds.length} ignored)`,
+        `OpenRGB Accent Sync: Syncing ${devicesToSync.length} devices (${allDevices.length - devicesToSync.length} ignored)`,
       );
       if (ignoredStableIds.length > 0) {
         console.log(
@@ -708,6 +1226,7 @@ export default class OpenRGBAccentSyncExtension
       }
     } catch (error: unknown) {
       const errorMsg = formatErrorMessage(error);
+      this.lastError = errorMsg;
 
       if (isOpenRGBError(error)) {
         console.error(`OpenRGB Accent Sync: Color sync failed - ${errorMsg}`);
@@ -727,6 +1246,7 @@ export default class OpenRGBAccentSyncExtension
       this.startReconnectionTimer();
     } finally {
       this.syncInProgress = false;
+      this.dbusService?.notifyStateChanged();
     }
   }
 
@@ -8,10 +8,21 @@ import {
   ExtensionPreferences,
 } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
 
-import { OpenRGBClient } from './src/openrgb/index.js';
+import { type ExtensionDevice, queryRunningExtension, requestResync } from './src/dbus.js';
+import { migrateLegacyStableIds } from './src/migration.js';
+import {
+  connectToServer,
+  DeviceType,
+  formatServerAddress,
+  gioPlatform,
+  OpenRGBClient,
+  parseServerAddress,
+  type ServerConnection,
+} from './src/openrgb/index.js';
 import {
   ACCENT_COLOR_MAP,
   type AccentColorName,
+  DEVICE_TYPE_LABELS,
   ExtensionConstants,
 } from './src/types/extension.js';
 
@@ -36,11 +47,13 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
 
     this._createConnectionGroup(mainPage, settings);
     this._createSyncGroup(mainPage, settings);
+    this._createProfilesGroup(mainPage, settings);
     this._createAboutGroup(mainPage);
 
     this._createNightLightGroup(appearancePage, settings);
 
     this._createDevicesGroup(devicesPage, settings);
+    this._createIgnoredTypesGroup(devicesPage, settings);
 
     window.add(mainPage);
     window.add(appearancePage);
@@ -188,12 +201,107 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
       syncGroup.add(smoothTransitionRow);
     }
 
+    const slowModeSwitchRow = new Adw.EntryRow({
+      title: _('Pause After Mode Switch For (comma-separated device names)'),
+      text: settings.get_strv('slow-mode-switch-devices').join(', '),
+    });
+    slowModeSwitchRow.connect('notify::text', () => {
+      settings.set_strv(
+        'slow-mode-switch-devices',
+        slowModeSwitchRow.text
+          .split(',')
+          .map((name: string) => name.trim())
+          .filter((name: string) => name !== ''),
+      );
+    });
+
     syncGroup.add(enabledRow);
     syncGroup.add(delayRow);
     syncGroup.add(directModeRow);
+    syncGroup.add(slowModeSwitchRow);
     page.add(syncGroup);
   }
 
+  private _createProfilesGroup(page: Adw.PreferencesPage, settings: Gio.Settings): void {
+    const profilesGroup = new Adw.PreferencesGroup({
+      title: _('OpenRGB Profiles'),
+      description: _(
+        'Load profiles saved in OpenRGB when accent sync steps aside. Leave empty to keep the current lighting.',
+      ),
+    });
+
+    const syncDisabledRow = new Adw.EntryRow({
+      title: _('Profile When Sync Is Disabled'),
+      text: settings.get_string('sync-disabled-profile'),
+    });
+    syncDisabledRow.connect('notify::text', () => {
+      settings.set_string('sync-disabled-profile', syncDisabledRow.text.trim());
+    });
+
+    const extensionDisabledRow = new Adw.EntryRow({
+      title: _('Profile When Extension Is Disabled'),
+      text: settings.get_string('extension-disabled-profile'),
+    });
+    extensionDisabledRow.connect('notify::text', () => {
+      settings.set_string('extension-disabled-profile', extensionDisabledRow.text.trim());
+    });
+
+    profilesGroup.add(syncDisabledRow);
+    profilesGroup.add(extensionDisabledRow);
+    page.add(profilesGroup);
+
+    const accentProfilesGroup = new Adw.PreferencesGroup({
+      title: _('Accent Color Profiles'),
+      description: _(
+        'Load an OpenRGB profile for specific accent colors. Accents without a profile use the flat color.',
+      ),
+    });
+
+    const accentProfilesRow = new Adw.SwitchRow({
+      title: _('Use Profiles for Accent Colors'),
+      subtitle: _('Load the mapped OpenRGB profile instead of painting a single color'),
+      active: settings.get_boolean('accent-profiles-enabled'),
+    });
+    accentProfilesGroup.add(accentProfilesRow);
+
+    const accentRows: Adw.EntryRow[] = [];
+    const accentNames = (Object.keys(ACCENT_COLOR_MAP) as AccentColorName[]).filter(
+      (name) => name !== 'default',
+    );
+    const profiles = settings.get_value('accent-profiles').deep_unpack() as Record<string, string>;
+    for (const accentName of accentNames) {
+      const accentRow = new Adw.EntryRow({
+        title: _(`Profile for ${accentName}`),
+        text: profiles[accentName] ?? '',
+        visible: accentProfilesRow.active,
+      });
+      accentRow.connect('notify::text', () => {
+        const current = settings.get_value('accent-profiles').deep_unpack() as Record<
+          string,
+          string
+        >;
+        const profile = accentRow.text.trim();
+        if (profile) {
+          current[accentName] = profile;
+        } else {
+          delete current[accentName];
+        }
+        settings.set_value('accent-profiles', new GLib.Variant('a{ss}', current));
+      });
+      accentProfilesGroup.add(accentRow);
+      accentRows.push(accentRow);
+    }
+
+    accentProfilesRow.connect('notify::active', () => {
+      settings.set_boolean('accent-profiles-enabled', accentProfilesRow.active);
+      accentRows.forEach((row) => {
+        row.visible = accentProfilesRow.active;
+      });
+    });
+
+    page.add(accentProfilesGroup);
+  }
+
   private _createNightLightGroup(page: Adw.PreferencesPage, settings: Gio.Settings): void {
     const nightLightGroup = new Adw.PreferencesGroup({
       title: _('Night Light Integration'),
@@ -409,13 +517,7 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
     deviceRows.length = 0;
 
     try {
-      const host = settings.get_string('openrgb-host');
-      const port = settings.get_int('openrgb-port');
-      const client = new OpenRGBClient(host, port, 'GNOME-Preferences');
-
-      await client.connect();
-      const devices = await client.discoverDevices();
-      client.disconnect();
+      const devices = await this._listDevices(settings, statusRow);
 
       if (devices.length === 0) {
         statusRow.title = _('No devices found');
@@ -445,10 +547,14 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
           return;
         }
 
+        const vendor = device.vendor.replace(/\0/g, '');
+        const typeIgnored = settings
+          .get_strv('ignored-device-types')
+          .includes(DeviceType[device.type]);
         const deviceRow = new Adw.ActionRow({
           title: device.name,
           subtitle: _(
-            `Stable ID: ${device.stableId} • Index: ${device.ephemeralId} • LEDs: ${device.ledCount}`,
+            `${DEVICE_TYPE_LABELS[device.type] ?? DEVICE_TYPE_LABELS[DeviceType.UNKNOWN]}${vendor ? ` • ${vendor}` : ''}${typeIgnored ? ' (type ignored)' : ''} • Stable ID: ${device.stableId} • Index: ${device.ephemeralId} • LEDs: ${device.ledCount}`,
           ),
         });
 
@@ -458,6 +564,9 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
           valign: Gtk.Align.CENTER,
         });
 
+        if (device.staticModeIndex !== null) {
+          deviceRow.add_suffix(this._createPersistColorSwitch(settings, device.stableId));
+        }
         deviceRow.add_suffix(ignoreButton);
 
         ignoreButton.connect('clicked', () => {
@@ -545,6 +654,99 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
     }
   }
 
+  /**
+   * Devices as the running extension sees them. Only when it is not running
+   * does the window open a connection of its own.
+   */
+  private async _listDevices(
+    settings: Gio.Settings,
+    statusRow: Adw.ActionRow,
+  ): Promise<Omit<ExtensionDevice, 'ignored'>[]> {
+    const status = await queryRunningExtension();
+    if (status) {
+      if (status.connectionState !== 'connected') {
+        throw new Error(status.lastError ?? 'The extension is not connected to OpenRGB');
+      }
+      return status.devices;
+    }
+
+    const host = settings.get_string('openrgb-host');
+    const port = settings.get_int('openrgb-port');
+    const client = new OpenRGBClient(gioPlatform, host, port, 'GNOME-Preferences');
+
+    try {
+      await client.connect();
+      // Opening the Devices page must not change what the user runs in OpenRGB
+      const devices = await client.discoverDevices({
+        readOnly: true,
+        onProgress: (discovered, total) => {
+          statusRow.subtitle = _(`${discovered}/${total} devices`);
+        },
+      });
+      migrateLegacyStableIds(settings, client.getLegacyStableIds());
+      return devices;
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  private _createIgnoredTypesGroup(page: Adw.PreferencesPage, settings: Gio.Settings): void {
+    const ignoredTypesGroup = new Adw.PreferencesGroup({
+      title: _('Ignored Device Types'),
+      description: _('Never synchronize whole categories of devices, such as GPUs or RAM.'),
+    });
+
+    const typesRow = new Adw.ExpanderRow({
+      title: _('Device Types'),
+      subtitle: _('Ignored types are skipped even when their devices are not ignored'),
+    });
+
+    const types = Object.values(DeviceType).filter(
+      (value): value is DeviceType => typeof value === 'number',
+    );
+    for (const type of types) {
+      const typeRow = new Adw.SwitchRow({
+        title: _(DEVICE_TYPE_LABELS[type]),
+        active: settings.get_strv('ignored-device-types').includes(DeviceType[type]),
+      });
+      typeRow.connect('notify::active', () => {
+        const ignored = settings
+          .get_strv('ignored-device-types')
+          .filter((name: string) => name !== DeviceType[type]);
+        if (typeRow.active) {
+          ignored.push(DeviceType[type]);
+        }
+        settings.set_strv('ignored-device-types', ignored);
+      });
+      typesRow.add_row(typeRow);
+    }
+
+    ignoredTypesGroup.add(typesRow);
+    page.add(ignoredTypesGroup);
+  }
+
+  private _createPersistColorSwitch(settings: Gio.Settings, stableId: string): Gtk.Switch {
+    const persistSwitch = new Gtk.Switch({
+      active: settings.get_strv('persist-color-devices').includes(stableId),
+      valign: Gtk.Align.CENTER,
+      tooltip_text: _(
+        'Save the accent color to the device memory so it is kept after a reboot or power cycle',
+      ),
+    });
+
+    persistSwitch.connect('notify::active', () => {
+      const persistStableIds = settings
+        .get_strv('persist-color-devices')
+        .filter((id: string) => id !== stableId);
+      if (persistSwitch.active) {
+        persistStableIds.push(stableId);
+      }
+      settings.set_strv('persist-color-devices', persistStableIds);
+    });
+
+    return persistSwitch;
+  }
+
   private async _testConnection(
     settings: Gio.Settings,
     statusLabel: Gtk.Label,
@@ -555,36 +757,46 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
     statusLabel.css_classes = ['dim-label'];
 
     try {
-      const host = settings.get_string('openrgb-host');
-      const port = settings.get_int('openrgb-port');
+      const host = settings.get_string('openrgb-host') || ExtensionConstants.DEFAULT_HOST;
+      const port = settings.get_int('openrgb-port') || ExtensionConstants.DEFAULT_PORT;
 
-      const address = Gio.InetSocketAddress.new_from_string(host, port);
-      if (!address) {
-        throw new Error(`Invalid address: ${host}:${port}`);
-      }
+      const server = parseServerAddress(host, port);
 
-      const socket = new Gio.SocketClient();
+      // The running extension does not reconnect when host or port change, so
+      // its connection only answers for the server it was started with
+      const status = await queryRunningExtension();
+      if (status?.serverAddress === formatServerAddress(server.host, server.port)) {
+        if (status.connectionState !== 'connected') {
+          throw new Error(status.lastError ?? 'The extension is not connected to OpenRGB');
+        }
+        statusLabel.label = _(
+          `✓ Connected to ${status.connectedAddress ?? status.serverAddress} (${status.devices.length} devices)`,
+        );
+        statusLabel.css_classes = ['success'];
+        return;
+      }
 
-      const connection = await new Promise<Gio.SocketConnection>((resolve, reject) => {
-        const timeoutId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, 5000, () => {
-          reject(new Error('Connection timeout'));
-          return GLib.SOURCE_REMOVE;
-        });
+      // Give up after 5 seconds across resolution and every address attempt
+      const cancellable = new Gio.Cancellable();
+      const timeoutId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, 5000, () => {
+        cancellable.cancel();
+        return GLib.SOURCE_REMOVE;
+      });
 
-        socket.connect_async(address, null, (source, result) => {
+      let connected: ServerConnection;
+      try {
+        connected = await connectToServer(server.host, server.port, cancellable);
+      } catch (error) {
+        throw cancellable.is_cancelled() ? new Error('Connection timeout') : error;
+      } finally {
+        if (!cancellable.is_cancelled()) {
           GLib.source_remove(timeoutId);
-          try {
-            const conn = source!.connect_finish(result);
-            resolve(conn);
-          } catch (error) {
-            reject(error);
-          }
-        });
-      });
+        }
+      }
 
-      connection.close(null);
+      connected.connection.close(null);
 
-      statusLabel.label = _('✓ Connected');
+      statusLabel.label = _(`✓ Connected to ${connected.address}`);
       statusLabel.css_classes = ['success'];
     } catch (error) {
       console.error('OpenRGB connection test failed:', error);
@@ -594,21 +806,8 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
         errorMessage = 'Connection refused - Try: openrgb --server --server-host 127.0.0.1';
       } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
         errorMessage = 'Connection timeout - Check host and port settings';
-      } else if (
-        errorMessage.includes('ENOTFOUND') ||
-        errorMessage.includes('Name or service not known')
-      ) {
+      } else if (errorMessage.includes('Could not resolve host')) {
         errorMessage = 'Host not found - Check the hostname/IP address';
-      } else if (
-        errorMessage.includes('família desconhecida') ||
-        errorMessage.includes('Unknown family')
-      ) {
-        errorMessage = 'Invalid host address - Use IP address like 127.0.0.1 instead of localhost';
-      } else if (
-        errorMessage.includes('Invalid host address') ||
-        errorMessage.includes('Invalid IP address')
-      ) {
-        errorMessage = 'Invalid host address - Use IP address like 127.0.0.1 or 192.168.1.100';
       }
 
       statusLabel.label = _(`✗ ${errorMessage}`);
@@ -788,9 +987,14 @@ export default class OpenRGBAccentSyncPreferences extends ExtensionPreferences {
         `OpenRGB Accent Sync: Current accent color: RGB(${currentColor.r}, ${currentColor.g}, ${currentColor.b})`,
       );
 
+      // The running extension repaints every device it no longer ignores
+      if (await requestResync()) {
+        return;
+      }
+
       const host = settings.get_string('openrgb-host');
       const port = settings.get_int('openrgb-port');
-      const client = new OpenRGBClient(host, port, 'GNOME-Preferences-ColorUpdate');
+      const client = new OpenRGBClient(gioPlatform, host, port, 'GNOME-Preferences-ColorUpdate');
 
       await client.connect();
 
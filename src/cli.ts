@@ -0,0 +1,620 @@
+/**
+ * Command-line client for debugging without the preferences window: lists
+ * devices, pushes colors and modes, dumps raw controller data and watches
+ * hotplug events. Runs on the Node transport; --json prints machine-readable
+ * output (one JSON document, or one JSON line per event for watch).
+ *
+ *   pnpm run cli list --json
+ *   pnpm run cli set-color '#3584e4' --device <stableId>
+ */
+
+import { pathToFileURL } from 'node:url';
+import { format, parseArgs } from 'node:util';
+import { type Device, type ModeOverrides, OpenRGBClient } from './openrgb/client.js';
+import { encodeRequest } from './openrgb/codecs.js';
+import { DeviceData } from './openrgb/device.js';
+import { ColorMode, DeviceType, PacketType, ZoneType } from './openrgb/enums.js';
+import { formatErrorMessage } from './openrgb/errors.js';
+import { buildDeviceFingerprint, hashFingerprint } from './openrgb/hash.js';
+import { getModeCapabilities } from './openrgb/modes.js';
+import { NetworkClient } from './openrgb/network.js';
+import { nodePlatform } from './openrgb/node-transport.js';
+import type { Platform } from './openrgb/transport.js';
+import { createRGBColor, type RGBColor } from './openrgb/types.js';
+import {
+  ACCENT_COLOR_MAP,
+  type AccentColorName,
+  DEVICE_TYPE_LABELS,
+  ExtensionConstants,
+} from './types/extension.js';
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const CLI_CLIENT_NAME = 'OpenRGB-AccentSync-CLI';
+
+const USAGE = `Usage: cli <command> [options]
+
+Commands:
+  list                          List devices with their stableId, modes and zones
+  set-color <color>             Paint devices with #rrggbb, r,g,b or an accent color name
+  set-mode <device> <mode>      Switch a device to a mode, by index or name
+  dump-raw [device]             Hex dump of the controller data the server sends
+  watch                         Print devices as they are added and removed
+
+Devices are selected by stableId, index or name.
+
+Options:
+  --host <host>        Server host, may include a port (default ${ExtensionConstants.DEFAULT_HOST})
+  --port <port>        Server port (default ${ExtensionConstants.DEFAULT_PORT})
+  --name <name>        Client name shown in OpenRGB (default ${CLI_CLIENT_NAME})
+  --device <device>    set-color: only paint this device (repeatable)
+  --save               set-color: save the color to the device's onboard memory
+  --speed <n>          set-mode: mode speed
+  --brightness <n>     set-mode: mode brightness
+  --direction <n>      set-mode: mode direction
+  --color <color>      set-mode: mode color (repeatable)
+  --json               Print JSON instead of text
+  --verbose            Print the client's log to stderr
+  -h, --help           Show this help
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  host: string;
+  port: number;
+  name: string;
+  json: boolean;
+  devices: string[];
+  save: boolean;
+  speed: number | undefined;
+  brightness: number | undefined;
+  direction: number | undefined;
+  colors: RGBColor[];
+}
+
+interface CommandContext {
+  options: CliOptions;
+  args: string[];
+  io: CliIO;
+  platform: Platform;
+  signal: AbortSignal | undefined;
+}
+
+type Command = (context: CommandContext) => Promise<number>;
+
+interface ColorResult {
+  device: Device;
+  success: boolean;
+  error?: string | undefined;
+}
+
+interface RawDump {
+  index: number;
+  stableId: string;
+  name: string;
+  protocolVersion: number;
+  bytes: Uint8Array;
+}
+
+const COMMANDS: Record<string, Command> = {
+  list: listCommand,
+  'set-color': setColorCommand,
+  'set-mode': setModeCommand,
+  'dump-raw': dumpRawCommand,
+  watch: watchCommand,
+};
+
+/**
+ * Run one command and return its exit code: 0 on success, 1 when the server
+ * or a device failed, 2 on bad usage. watch runs until signal aborts.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO,
+  platform: Platform = nodePlatform,
+  signal?: AbortSignal,
+): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`${formatErrorMessage(error)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (parsed.help || !parsed.command) {
+    (parsed.help ? io.stdout : io.stderr)(USAGE);
+    return parsed.help ? 0 : 2;
+  }
+
+  const command = COMMANDS[parsed.command];
+  if (!command) {
+    io.stderr(`Unknown command "${parsed.command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  const restoreConsole = redirectConsole(parsed.verbose ? io.stderr : null);
+  try {
+    return await command({ options: parsed.options, args: parsed.args, io, platform, signal });
+  } catch (error) {
+    io.stderr(`Error: ${formatErrorMessage(error)}\n`);
+    return error instanceof UsageError ? 2 : 1;
+  } finally {
+    restoreConsole();
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      host: { type: 'string', default: ExtensionConstants.DEFAULT_HOST },
+      port: { type: 'string', default: String(ExtensionConstants.DEFAULT_PORT) },
+      name: { type: 'string', default: CLI_CLIENT_NAME },
+      device: { type: 'string', multiple: true, default: [] },
+      save: { type: 'boolean', default: false },
+      speed: { type: 'string' },
+      brightness: { type: 'string' },
+      direction: { type: 'string' },
+      color: { type: 'string', multiple: true, default: [] },
+      json: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const port = parseInteger(values.port, '--port');
+  if (port === undefined || port < 1 || port > 65535) {
+    throw new UsageError(`Invalid port "${values.port}"`);
+  }
+
+  const [command, ...args] = positionals;
+  return {
+    command,
+    args,
+    help: values.help,
+    verbose: values.verbose,
+    options: {
+      host: values.host,
+      port,
+      name: values.name,
+      json: values.json,
+      devices: values.device,
+      save: values.save,
+      speed: parseInteger(values.speed, '--speed'),
+      brightness: parseInteger(values.brightness, '--brightness'),
+      direction: parseInteger(values.direction, '--direction'),
+      colors: values.color.map(parseColor),
+    } satisfies CliOptions,
+  };
+}
+
+function parseInteger(text: string | undefined, option: string): number | undefined {
+  if (text === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new UsageError(`${option} expects a non-negative integer, got "${text}"`);
+  }
+  return Number.parseInt(text, 10);
+}
+
+/**
+ * Parse #rrggbb (the # is optional), "r,g,b" or a GNOME accent color name
+ */
+export function parseColor(text: string): RGBColor {
+  const name = text.trim().toLowerCase();
+  if (Object.hasOwn(ACCENT_COLOR_MAP, name)) {
+    return { ...ACCENT_COLOR_MAP[name as AccentColorName] };
+  }
+
+  const hex = /^#?([0-9a-f]{6})$/.exec(name);
+  if (hex) {
+    const value = Number.parseInt(hex[1] ?? '', 16);
+    return createRGBColor((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+  }
+
+  const channels = name.split(',').map((part) => part.trim());
+  if (channels.length === 3 && channels.every((part) => /^\d{1,3}$/.test(part))) {
+    const [r, g, b] = channels.map(Number);
+    if ([r, g, b].every((value) => value !== undefined && value <= 255)) {
+      return createRGBColor(r, g, b);
+    }
+  }
+
+  throw new UsageError(`Invalid color "${text}"; use #rrggbb, r,g,b or an accent color name`);
+}
+
+function formatHex({ r, g, b }: RGBColor): string {
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * The client logs every step to the console; keep that off stdout so JSON
+ * output stays parseable, and show it on stderr only with --verbose.
+ */
+function redirectConsole(sink: ((text: string) => void) | null): () => void {
+  const saved = {
+    log: console.log,
+    info: console.info,
+    warn: console.warn,
+    error: console.error,
+    debug: console.debug,
+  };
+  const write = (...args: unknown[]) => sink?.(`${format(...args)}\n`);
+  console.log = console.info = console.warn = console.error = console.debug = write;
+
+  return () => Object.assign(console, saved);
+}
+
+async function withClient<T>(
+  { options, platform }: CommandContext,
+  run: (client: OpenRGBClient) => Promise<T>,
+): Promise<T> {
+  const client = new OpenRGBClient(platform, options.host, options.port, options.name);
+  try {
+    await client.connect();
+    return await run(client);
+  } finally {
+    client.disconnect();
+  }
+}
+
+function matchesSelector(
+  { index, stableId, name }: { index: number; stableId: string; name: string },
+  selector: string,
+): boolean {
+  return (
+    stableId === selector ||
+    String(index) === selector ||
+    name.toLowerCase() === selector.toLowerCase()
+  );
+}
+
+function selectDevices(devices: Device[], selectors: string[]): Device[] {
+  if (selectors.length === 0) {
+    return devices;
+  }
+
+  return selectors.map((selector) => {
+    const matches = devices.filter((device) =>
+      matchesSelector({ index: device.ephemeralId, ...device }, selector),
+    );
+    if (matches.length === 0) {
+      throw new UsageError(`No device matches "${selector}"`);
+    }
+    if (matches.length > 1) {
+      throw new UsageError(
+        `"${selector}" matches ${matches.length} devices; use a stableId instead`,
+      );
+    }
+    return matches[0]!;
+  });
+}
+
+function describeDevice(device: Device) {
+  const data = device.data;
+  return {
+    index: device.ephemeralId,
+    stableId: device.stableId,
+    name: device.name,
+    type: DeviceType[device.type] ?? String(device.type),
+    vendor: device.vendor,
+    serial: data?.serial ?? '',
+    location: data?.location ?? '',
+    ledCount: device.ledCount,
+    activeMode: data?.activeMode ?? null,
+    directModeIndex: device.directModeIndex,
+    staticModeIndex: device.staticModeIndex,
+    modes: (data?.modes ?? []).map((mode, index) => ({
+      index,
+      name: mode.name,
+      flags: mode.flags,
+      capabilities: getModeCapabilities(mode),
+    })),
+    zones: (data?.zones ?? []).map((zone, index) => ({
+      index,
+      name: zone.name,
+      type: ZoneType[zone.type] ?? String(zone.type),
+      ledCount: zone.ledsCount,
+      matrix: zone.matrixMap
+        ? { height: zone.matrixHeight ?? 0, width: zone.matrixWidth ?? 0 }
+        : null,
+    })),
+  };
+}
+
+function formatDevice(device: Device): string {
+  const info = describeDevice(device);
+  const label = [DEVICE_TYPE_LABELS[device.type] ?? info.type, info.vendor].filter(Boolean);
+  const modes = info.modes.map(({ index, name }) => {
+    const tags = [
+      index === info.activeMode && 'active',
+      index === info.directModeIndex && 'direct',
+      index === info.staticModeIndex && 'static',
+    ].filter(Boolean);
+    return `${index} ${name}${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`;
+  });
+  const zones = info.zones.map(
+    ({ index, name, type, ledCount, matrix }) =>
+      `${index} ${name}: ${type.toLowerCase()}, ${ledCount} LEDs` +
+      (matrix ? `, ${matrix.width}x${matrix.height} matrix` : ''),
+  );
+
+  return [
+    `${info.name} [${label.join(', ')}]`,
+    `  stableId  ${info.stableId}  index ${info.index}  ${info.ledCount} LEDs`,
+    `  modes     ${modes.join('  ') || '-'}`,
+    `  zones     ${zones.join('  ') || '-'}`,
+    '',
+  ].join('\n');
+}
+
+function printJson(io: CliIO, value: unknown, pretty: boolean = true): void {
+  io.stdout(`${JSON.stringify(value, null, pretty ? 2 : undefined)}\n`);
+}
+
+async function listCommand(context: CommandContext): Promise<number> {
+  const { options, io } = context;
+  // Listing must not change what the user runs in OpenRGB
+  const devices = await withClient(context, (client) => client.discoverDevices({ readOnly: true }));
+
+  if (options.json) {
+    printJson(io, devices.map(describeDevice));
+  } else if (devices.length === 0) {
+    io.stdout('No devices\n');
+  } else {
+    io.stdout(devices.map(formatDevice).join('\n'));
+  }
+  return 0;
+}
+
+async function setColorCommand(context: CommandContext): Promise<number> {
+  const { options, args, io } = context;
+  if (args.length !== 1) {
+    throw new UsageError('set-color expects one color');
+  }
+  const color = parseColor(args[0]!);
+
+  const results = await withClient(context, async (client): Promise<ColorResult[]> => {
+    const devices = await client.discoverDevices({ setDirectMode: false });
+    const targets = selectDevices(devices, options.devices);
+
+    if (!options.save) {
+      const synced = await client.setDevicesColor(targets, color, true);
+      return targets.map((device, i) => ({
+        device,
+        success: synced[i]?.success ?? false,
+        error: synced[i]?.error,
+      }));
+    }
+
+    const saved: ColorResult[] = [];
+    for (const device of targets) {
+      try {
+        await client.saveColorToDevice(device.stableId, color);
+        saved.push({ device, success: true });
+      } catch (error) {
+        saved.push({ device, success: false, error: formatErrorMessage(error) });
+      }
+    }
+    return saved;
+  });
+
+  const failed = results.filter((result) => !result.success);
+  if (options.json) {
+    printJson(io, {
+      color: formatHex(color),
+      saved: options.save,
+      results: results.map(({ device, success, error }) => ({
+        stableId: device.stableId,
+        name: device.name,
+        success,
+        ...(error ? { error } : {}),
+      })),
+    });
+  } else {
+    const verb = options.save ? 'Saved' : 'Set';
+    io.stdout(`${verb} ${formatHex(color)} on ${results.length - failed.length} devices\n`);
+    for (const { device, error } of failed) {
+      io.stderr(`${device.name} (${device.stableId}): ${error ?? 'failed'}\n`);
+    }
+  }
+  return failed.length > 0 ? 1 : 0;
+}
+
+function findModeIndex(device: Device, selector: string): number {
+  const modes = device.data?.modes ?? [];
+  const index = /^\d+$/.test(selector)
+    ? Number.parseInt(selector, 10)
+    : modes.findIndex((mode) => mode.name.toLowerCase() === selector.toLowerCase());
+
+  if (index < 0 || index >= modes.length) {
+    const names = modes.map((mode, i) => `${i} ${mode.name}`).join(', ');
+    throw new UsageError(`${device.name} has no mode "${selector}" (modes: ${names || 'none'})`);
+  }
+  return index;
+}
+
+async function setModeCommand(context: CommandContext): Promise<number> {
+  const { options, args, io } = context;
+  if (args.length !== 2) {
+    throw new UsageError('set-mode expects a device and a mode');
+  }
+  const [deviceSelector, modeSelector] = args as [string, string];
+
+  const { device, modeIndex, mode } = await withClient(context, async (client) => {
+    const devices = await client.discoverDevices({ setDirectMode: false });
+    const [device] = selectDevices(devices, [deviceSelector]) as [Device];
+    const modeIndex = findModeIndex(device, modeSelector);
+
+    const overrides: ModeOverrides = {};
+    if (options.speed !== undefined) overrides.speed = options.speed;
+    if (options.brightness !== undefined) overrides.brightness = options.brightness;
+    if (options.direction !== undefined) overrides.direction = options.direction;
+    if (options.colors.length > 0) {
+      overrides.colorMode = ColorMode.MODE_SPECIFIC;
+      overrides.colors = options.colors;
+    }
+
+    const mode = await client.setMode(device.stableId, modeIndex, overrides);
+    return { device, modeIndex, mode };
+  });
+
+  if (options.json) {
+    printJson(io, { stableId: device.stableId, name: device.name, modeIndex, mode });
+  } else {
+    io.stdout(`${device.name}: mode ${modeIndex} (${mode.name})\n`);
+  }
+  return 0;
+}
+
+/**
+ * Classic offset / hex / ASCII dump, 16 bytes per line
+ */
+function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = Array.from(bytes.subarray(offset, offset + 16));
+    const hex = row.map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = row
+      .map((byte) => (byte >= 32 && byte <= 126 ? String.fromCharCode(byte) : '.'))
+      .join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+async function dumpRawCommand({ options, args, io, platform }: CommandContext): Promise<number> {
+  if (args.length > 1) {
+    throw new UsageError('dump-raw expects at most one device');
+  }
+  const selector = args[0];
+
+  // OpenRGBClient only keeps parsed devices, so ask for the bytes directly
+  const network = new NetworkClient(platform, options.host, options.port, options.name);
+  const dumps: RawDump[] = [];
+  try {
+    await network.connect();
+    const protocolVersion = network.getProtocolVersion();
+    const count = await network.getControllerCount();
+
+    for (let index = 0; index < count; index++) {
+      const raw = await network.request(
+        index,
+        PacketType.REQUEST_CONTROLLER_DATA,
+        encodeRequest(PacketType.REQUEST_CONTROLLER_DATA, protocolVersion),
+      );
+      const device = DeviceData.parse(raw, protocolVersion);
+      const stableId = hashFingerprint(
+        buildDeviceFingerprint({
+          serial: device.serial,
+          location: device.location,
+          name: device.name,
+          ledCount: device.leds.length,
+        }),
+        platform.sha256,
+      );
+
+      if (selector === undefined || matchesSelector({ index, stableId, ...device }, selector)) {
+        dumps.push({
+          index,
+          stableId,
+          name: device.name,
+          protocolVersion,
+          bytes: new Uint8Array(raw),
+        });
+      }
+    }
+  } finally {
+    network.disconnect();
+  }
+
+  if (selector !== undefined && dumps.length === 0) {
+    throw new UsageError(`No device matches "${selector}"`);
+  }
+
+  if (options.json) {
+    printJson(
+      io,
+      dumps.map(({ bytes, ...dump }) => ({
+        ...dump,
+        size: bytes.length,
+        data: Buffer.from(bytes).toString('hex'),
+      })),
+    );
+  } else {
+    for (const { index, stableId, name, protocolVersion, bytes } of dumps) {
+      io.stdout(
+        `# ${name} (index ${index}, stableId ${stableId}, protocol ${protocolVersion}, ${bytes.length} bytes)\n`,
+      );
+      io.stdout(hexDump(bytes));
+    }
+  }
+  return 0;
+}
+
+async function watchCommand(context: CommandContext): Promise<number> {
+  const { options, io, signal } = context;
+  const report = (event: string, devices: Device[]) => {
+    if (options.json) {
+      printJson(io, { event, devices: devices.map(describeDevice) }, false);
+    } else {
+      const mark = event === 'removed' ? '-' : '+';
+      for (const device of devices) {
+        io.stdout(`${mark} ${device.name} (${device.stableId})\n`);
+      }
+    }
+  };
+
+  return withClient(context, async (client) => {
+    report('devices', await client.discoverDevices({ readOnly: true }));
+    client.on('devicesAdded', (devices) => report('added', devices));
+    client.on('devicesRemoved', (devices) => report('removed', devices));
+
+    return new Promise<number>((resolve) => {
+      if (signal?.aborted) {
+        resolve(0);
+        return;
+      }
+      signal?.addEventListener('abort', () => resolve(0), { once: true });
+      client.on('disconnected', (error) => {
+        if (options.json) {
+          printJson(io, { event: 'disconnected', error: error.message }, false);
+        } else {
+          io.stderr(`Disconnected: ${error.message}\n`);
+        }
+        resolve(1);
+      });
+    });
+  });
+}
+
+const entryPoint = process.argv[1];
+if (entryPoint && import.meta.url === pathToFileURL(entryPoint).href) {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+
+  runCli(
+    process.argv.slice(2),
+    {
+      stdout: (text) => process.stdout.write(text),
+      stderr: (text) => process.stderr.write(text),
+    },
+    nodePlatform,
+    controller.signal,
+  ).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,390 @@
+import Gio from 'gi://Gio';
+import GLib from 'gi://GLib';
+import type { Device } from './openrgb/client.js';
+import { DeviceType } from './openrgb/enums.js';
+import type { RGBColor } from './openrgb/types.js';
+
+/**
+ * Exported on the session bus connection GNOME Shell already owns, so callers
+ * address it with `--dest org.gnome.Shell`.
+ */
+export const DBUS_OBJECT_PATH = '/org/gnome/Shell/Extensions/OpenRGBAccentSync';
+export const DBUS_INTERFACE_NAME = 'org.gnome.Shell.Extensions.OpenRGBAccentSync';
+
+export const DBUS_INTERFACE_XML = `<node>
+  <interface name="${DBUS_INTERFACE_NAME}">
+    <method name="SetOverrideColor">
+      <arg type="s" direction="in" name="color"/>
+      <arg type="u" direction="in" name="expirySeconds"/>
+    </method>
+    <method name="Pause"/>
+    <method name="Resume"/>
+    <method name="Resync"/>
+    <method name="Reconnect"/>
+    <method name="ListDevices">
+      <arg type="aa{sv}" direction="out" name="devices"/>
+    </method>
+    <property name="ConnectionState" type="s" access="read"/>
+    <property name="LastAppliedColor" type="s" access="read"/>
+    <property name="DeviceCount" type="u" access="read"/>
+    <property name="OverrideColor" type="s" access="read"/>
+    <property name="Paused" type="b" access="read"/>
+    <property name="LastError" type="s" access="read"/>
+    <property name="ServerAddress" type="s" access="read"/>
+    <property name="ConnectedAddress" type="s" access="read"/>
+  </interface>
+</node>`;
+
+export type ConnectionState = 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * What the D-Bus interface reads from and drives on the running extension
+ */
+export interface AccentSyncController {
+  readonly lastAppliedDeviceColor: RGBColor | null;
+  readonly overrideColor: RGBColor | null;
+  readonly paused: boolean;
+  readonly lastError: string | null;
+  getConnectionState(): ConnectionState;
+  /** Configured server, as host:port */
+  getServerAddress(): string;
+  /** Address that accepted the current connection, as host:port */
+  getConnectedAddress(): string | null;
+  getDevices(): Device[];
+  isDeviceIgnored(device: Device): boolean;
+  setOverrideColor(color: RGBColor | null, expirySeconds: number): void;
+  pause(): void;
+  resume(): void;
+  resync(): void;
+  forceReconnection(): Promise<void>;
+}
+
+type PropertyName =
+  | 'ConnectionState'
+  | 'LastAppliedColor'
+  | 'DeviceCount'
+  | 'OverrideColor'
+  | 'Paused'
+  | 'LastError'
+  | 'ServerAddress'
+  | 'ConnectedAddress';
+
+const PROPERTY_SIGNATURES: Record<PropertyName, string> = {
+  ConnectionState: 's',
+  LastAppliedColor: 's',
+  DeviceCount: 'u',
+  OverrideColor: 's',
+  Paused: 'b',
+  LastError: 's',
+  ServerAddress: 's',
+  ConnectedAddress: 's',
+};
+
+/**
+ * GJS answers a thrown error whose name contains a dot with that D-Bus error name
+ */
+function invalidArgs(message: string): Error {
+  const error = new Error(message);
+  error.name = 'org.freedesktop.DBus.Error.InvalidArgs';
+  return error;
+}
+
+export function parseHexColor(text: string): RGBColor | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const value = Number.parseInt(match[1]!, 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff, a: 255 };
+}
+
+export function formatHexColor(color: RGBColor | null): string {
+  if (!color) {
+    return '';
+  }
+  return `#${[color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Session bus interface of the running extension. Method and property names
+ * mirror DBUS_INTERFACE_XML; Gio.DBusExportedObject.wrapJSObject dispatches
+ * calls to them by name.
+ */
+export class AccentSyncDBusService {
+  private exported: Gio.DBusExportedObject | null = null;
+  private published: Partial<Record<PropertyName, unknown>> = {};
+
+  constructor(private readonly controller: AccentSyncController) {}
+
+  public export(connection: Gio.DBusConnection): void {
+    if (this.exported) {
+      return;
+    }
+    this.exported = Gio.DBusExportedObject.wrapJSObject(DBUS_INTERFACE_XML, this);
+    this.exported.export(connection, DBUS_OBJECT_PATH);
+    this.published = this.readProperties();
+  }
+
+  public unexport(): void {
+    this.exported?.unexport();
+    this.exported = null;
+  }
+
+  /**
+   * Emit PropertiesChanged for whatever changed since the last call. The
+   * extension calls this after anything that may have moved the state.
+   */
+  public notifyStateChanged(): void {
+    if (!this.exported) {
+      return;
+    }
+
+    const current = this.readProperties();
+    for (const name of Object.keys(current) as PropertyName[]) {
+      if (current[name] === this.published[name]) {
+        continue;
+      }
+      this.exported.emit_property_changed(
+        name,
+        new GLib.Variant(PROPERTY_SIGNATURES[name], current[name]),
+      );
+    }
+    this.published = current;
+  }
+
+  private readProperties(): Record<PropertyName, unknown> {
+    return {
+      ConnectionState: this.ConnectionState,
+      LastAppliedColor: this.LastAppliedColor,
+      DeviceCount: this.DeviceCount,
+      OverrideColor: this.OverrideColor,
+      Paused: this.Paused,
+      LastError: this.LastError,
+      ServerAddress: this.ServerAddress,
+      ConnectedAddress: this.ConnectedAddress,
+    };
+  }
+
+  /**
+   * Show `color` (#rrggbb) instead of the accent, for `expirySeconds` or until
+   * cleared when 0. An empty color clears the override.
+   */
+  public SetOverrideColor(color: string, expirySeconds: number): void {
+    if (color === '') {
+      this.controller.setOverrideColor(null, 0);
+      return;
+    }
+
+    const parsed = parseHexColor(color);
+    if (!parsed) {
+      throw invalidArgs(`Invalid color "${color}"; expected #rrggbb`);
+    }
+    this.controller.setOverrideColor(parsed, expirySeconds);
+  }
+
+  public Pause(): void {
+    this.controller.pause();
+  }
+
+  public Resume(): void {
+    this.controller.resume();
+  }
+
+  public Resync(): void {
+    this.controller.resync();
+  }
+
+  // Replies once the reconnection attempt has finished
+  public ReconnectAsync(_params: unknown[], invocation: Gio.DBusMethodInvocation): void {
+    this.controller
+      .forceReconnection()
+      .then(() => invocation.return_value(null))
+      .catch((error: unknown) =>
+        invocation.return_dbus_error(
+          'org.freedesktop.DBus.Error.Failed',
+          error instanceof Error ? error.message : String(error),
+        ),
+      );
+  }
+
+  public ListDevices(): Record<string, GLib.Variant>[] {
+    return this.controller.getDevices().map((device) => ({
+      stableId: new GLib.Variant('s', device.stableId),
+      ephemeralId: new GLib.Variant('u', device.ephemeralId),
+      name: new GLib.Variant('s', device.name),
+      type: new GLib.Variant('s', DeviceType[device.type] ?? 'UNKNOWN'),
+      vendor: new GLib.Variant('s', device.vendor),
+      ledCount: new GLib.Variant('u', device.ledCount),
+      ignored: new GLib.Variant('b', this.controller.isDeviceIgnored(device)),
+      // Absent when the device has no mode that can save a color
+      ...(device.staticModeIndex !== null && {
+        staticModeIndex: new GLib.Variant('u', device.staticModeIndex),
+      }),
+    }));
+  }
+
+  public get ConnectionState(): string {
+    return this.controller.getConnectionState();
+  }
+
+  public get LastAppliedColor(): string {
+    return formatHexColor(this.controller.lastAppliedDeviceColor);
+  }
+
+  public get DeviceCount(): number {
+    return this.controller.getDevices().length;
+  }
+
+  public get OverrideColor(): string {
+    return formatHexColor(this.controller.overrideColor);
+  }
+
+  public get Paused(): boolean {
+    return this.controller.paused;
+  }
+
+  public get LastError(): string {
+    return this.controller.lastError ?? '';
+  }
+
+  public get ServerAddress(): string {
+    return this.controller.getServerAddress();
+  }
+
+  public get ConnectedAddress(): string {
+    return this.controller.getConnectedAddress() ?? '';
+  }
+}
+
+/**
+ * A device as the running extension lists it over D-Bus
+ */
+export interface ExtensionDevice {
+  stableId: string;
+  ephemeralId: number;
+  name: string;
+  type: DeviceType;
+  vendor: string;
+  ledCount: number;
+  staticModeIndex: number | null;
+  ignored: boolean;
+}
+
+/**
+ * What the running extension sees, as read by another process
+ */
+export interface ExtensionStatus {
+  connectionState: ConnectionState;
+  serverAddress: string;
+  connectedAddress: string | null;
+  lastError: string | null;
+  paused: boolean;
+  devices: ExtensionDevice[];
+}
+
+const EXTENSION_CALL_TIMEOUT_MS = 2000;
+
+// Unpacked replies; every key may be missing when talking to an older extension
+interface ExportedProperties {
+  ConnectionState?: ConnectionState;
+  ServerAddress?: string;
+  ConnectedAddress?: string;
+  LastError?: string;
+  Paused?: boolean;
+}
+
+interface ListedDevice {
+  stableId: string;
+  ephemeralId: number;
+  name: string;
+  type: string;
+  vendor: string;
+  ledCount: number;
+  staticModeIndex?: number;
+  ignored: boolean;
+}
+
+function callExtension(
+  connection: Gio.DBusConnection,
+  interfaceName: string,
+  method: string,
+  parameters: GLib.Variant | null,
+): Promise<GLib.Variant> {
+  return new Promise((resolve, reject) => {
+    connection.call(
+      'org.gnome.Shell',
+      DBUS_OBJECT_PATH,
+      interfaceName,
+      method,
+      parameters,
+      null,
+      Gio.DBusCallFlags.NONE,
+      EXTENSION_CALL_TIMEOUT_MS,
+      null,
+      (source, result) => {
+        try {
+          resolve(source!.call_finish(result));
+        } catch (error) {
+          reject(error);
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Ask the extension running in GNOME Shell for its connection state and devices.
+ * Resolves to null when it is not running (disabled, or the shell predates
+ * the interface), so the caller can talk to OpenRGB itself.
+ */
+export async function queryRunningExtension(
+  connection: Gio.DBusConnection = Gio.DBus.session,
+): Promise<ExtensionStatus | null> {
+  try {
+    const [properties] = (
+      await callExtension(
+        connection,
+        'org.freedesktop.DBus.Properties',
+        'GetAll',
+        new GLib.Variant('(s)', [DBUS_INTERFACE_NAME]),
+      )
+    ).recursiveUnpack() as [ExportedProperties];
+    const [devices] = (
+      await callExtension(connection, DBUS_INTERFACE_NAME, 'ListDevices', null)
+    ).recursiveUnpack() as [ListedDevice[]];
+
+    return {
+      connectionState: properties.ConnectionState ?? 'disconnected',
+      serverAddress: properties.ServerAddress ?? '',
+      connectedAddress: properties.ConnectedAddress || null,
+      lastError: properties.LastError || null,
+      paused: properties.Paused ?? false,
+      devices: devices.map((device) => ({
+        ...device,
+        type: DeviceType[device.type as keyof typeof DeviceType] ?? DeviceType.UNKNOWN,
+        staticModeIndex: device.staticModeIndex ?? null,
+      })),
+    };
+  } catch (error) {
+    console.log(
+      'OpenRGB Accent Sync: Extension is not reachable over D-Bus:',
+      error instanceof Error ? error.message : String(error),
+    );
+    return null;
+  }
+}
+
+/**
+ * Have the running extension apply the accent again. Resolves to false when
+ * it is not running.
+ */
+export async function requestResync(
+  connection: Gio.DBusConnection = Gio.DBus.session,
+): Promise<boolean> {
+  try {
+    await callExtension(connection, DBUS_INTERFACE_NAME, 'Resync', null);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+import type Gio from 'gi://Gio';
+import GLib from 'gi://GLib';
+
+/**
+ * Rewrite the stableIds earlier releases stored to the ones devices have now,
+ * in every setting that keeps them. `legacyStableIds` maps current to legacy
+ * ids, as OpenRGBClient.getLegacyStableIds() returns them. Returns whether
+ * any setting changed.
+ */
+export function migrateLegacyStableIds(
+  settings: Gio.Settings,
+  legacyStableIds: Map<string, string>,
+): boolean {
+  const currentIds = new Map([...legacyStableIds].map(([current, legacy]) => [legacy, current]));
+  if (currentIds.size === 0) {
+    return false;
+  }
+  let changed = false;
+
+  const ignoredDeviceJsons = settings.get_strv('ignored-devices');
+  const migratedIgnored = ignoredDeviceJsons.map((deviceJson) => {
+    try {
+      const device = JSON.parse(deviceJson);
+      const stableId = currentIds.get(device?.stableId);
+      return stableId ? JSON.stringify({ ...device, stableId }) : deviceJson;
+    } catch {
+      return deviceJson;
+    }
+  });
+  if (migratedIgnored.some((deviceJson, i) => deviceJson !== ignoredDeviceJsons[i])) {
+    settings.set_strv('ignored-devices', migratedIgnored);
+    changed = true;
+  }
+
+  const persistStableIds = settings.get_strv('persist-color-devices');
+  if (persistStableIds.some((stableId) => currentIds.has(stableId))) {
+    const migrated = persistStableIds.map((stableId) => currentIds.get(stableId) ?? stableId);
+    settings.set_strv('persist-color-devices', [...new Set(migrated)]);
+    changed = true;
+  }
+
+  const persistedColors = settings.get_value('persisted-colors').deep_unpack() as Record<
+    string,
+    string
+  >;
+  if (Object.keys(persistedColors).some((stableId) => currentIds.has(stableId))) {
+    const migrated: Record<string, string> = {};
+    for (const [stableId, color] of Object.entries(persistedColors)) {
+      const current = currentIds.get(stableId) ?? stableId;
+      // A color saved under the current id is newer than the legacy one
+      if (!(current in migrated) || current === stableId) {
+        migrated[current] = color;
+      }
+    }
+    settings.set_value('persisted-colors', new GLib.Variant('a{ss}', migrated));
+    changed = true;
+  }
+
+  return changed;
+}
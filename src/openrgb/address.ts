@@ -0,0 +1,39 @@
+/**
+ * Server address parsing. Accepts IPv4/IPv6 literals (bare or bracketed,
+ * optionally with a port) and hostnames; resolving them is up to the transport.
+ */
+
+export interface ServerAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Split user input into host and port. "[::1]:6743" and "host:6743" override
+ * the given port; a bare IPv6 literal like "::1" is kept whole.
+ */
+export function parseServerAddress(input: string, defaultPort: number): ServerAddress {
+  const value = input.trim();
+
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return {
+      host: bracketed[1] ?? '',
+      port: bracketed[2] ? Number.parseInt(bracketed[2], 10) : defaultPort,
+    };
+  }
+
+  const hostWithPort = value.match(/^([^:]+):(\d+)$/);
+  if (hostWithPort) {
+    return { host: hostWithPort[1] ?? '', port: Number.parseInt(hostWithPort[2] ?? '', 10) };
+  }
+
+  return { host: value, port: defaultPort };
+}
+
+/**
+ * Format host and port for display, bracketing IPv6 literals
+ */
+export function formatServerAddress(host: string, port: number): string {
+  return host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`;
+}
@@ -1,38 +1,107 @@
-import GLib from 'gi://GLib';
+import { DEVICE_QUIRKS } from './constants.js';
 import type { DeviceData } from './device.js';
-import { OpenRGBConnectionError, OpenRGBError } from './errors.js';
+import { ColorMode, DeviceType } from './enums.js';
+import { OpenRGBConnectionError, OpenRGBError, OpenRGBTimeoutError } from './errors.js';
+import { EventEmitter } from './events.js';
 import { buildDeviceFingerprint, hashFingerprint } from './hash.js';
+import { findDirectModeIndex, findStaticModeIndex } from './modes.js';
 import { NetworkClient } from './network.js';
-import { type RGBColor, validateRGBColor } from './types.js';
+import type { Platform } from './transport.js';
+import { type DeviceMode, type RGBColor, validateRGBColor } from './types.js';
 
 export interface Device {
   ephemeralId: number; // volatile enumeration index used for protocol packets
   stableId: string; // deterministic ID
   name: string;
+  type: DeviceType;
+  vendor: string; // empty before protocol 1
   ledCount: number;
   directModeIndex: number;
+  staticModeIndex: number | null; // hardware mode used to persist a color, if any
   data: DeviceData | null;
 }
 
+/** Mode fields a caller may change; everything else is taken from the device's own mode */
+export type ModeOverrides = Partial<
+  Pick<DeviceMode, 'speed' | 'brightness' | 'direction' | 'colorMode' | 'colors'>
+>;
+
 interface SyncResult {
   deviceId: number;
   success: boolean;
   error?: string;
 }
 
-export class OpenRGBClient {
+export interface DiscoveryOptions {
+  /**
+   * Only enumerate and fingerprint devices: no client registration, no mode
+   * switch, and later device list refreshes leave added devices untouched
+   */
+  readOnly?: boolean;
+  /** Switch every device with LEDs to its direct mode (default true) */
+  setDirectMode?: boolean;
+  /** Called as controller data arrives, e.g. to show "3/12 devices" */
+  onProgress?: (discovered: number, total: number) => void;
+}
+
+export interface DeviceListChanges {
+  added: Device[];
+  removed: Device[];
+}
+
+export interface OpenRGBClientEvents {
+  /** Devices that appeared after the server reported a device list update */
+  devicesAdded: [devices: Device[]];
+  /** Devices that disappeared after the server reported a device list update */
+  devicesRemoved: [devices: Device[]];
+  /** The connection died without disconnect() being called */
+  disconnected: [error: Error];
+}
+
+export class OpenRGBClient extends EventEmitter<OpenRGBClientEvents> {
+  private platform: Platform;
   private networkClient: NetworkClient;
   private devices: Device[];
+  private legacyStableIds: Map<string, string>;
+  private deviceFilter: ((device: Device) => boolean) | null;
+  private slowModeSwitchDevices: readonly string[];
+  private lastColor: RGBColor | null;
+  private lastSetDirectMode: boolean;
+  private discoverySetsDirectMode: boolean;
+  private refreshInProgress: boolean;
+  private refreshQueued: boolean;
+  private readOnly: boolean;
   public connected: boolean;
 
   constructor(
+    platform: Platform,
     address: string = '127.0.0.1',
     port: number = 6742,
     name: string = 'GNOME-OpenRGB-AccentSync',
   ) {
-    this.networkClient = new NetworkClient(address, port, name);
+    super();
+    this.platform = platform;
+    this.networkClient = new NetworkClient(platform, address, port, name);
     this.devices = [];
+    this.legacyStableIds = new Map();
+    this.deviceFilter = null;
+    this.slowModeSwitchDevices = DEVICE_QUIRKS.SLOW_MODE_SWITCH;
+    this.lastColor = null;
+    this.lastSetDirectMode = false;
+    this.discoverySetsDirectMode = true;
+    this.refreshInProgress = false;
+    this.refreshQueued = false;
+    this.readOnly = false;
     this.connected = false;
+
+    this.networkClient.on('deviceListUpdated', () => {
+      this.handleDeviceListUpdated();
+    });
+    this.networkClient.on('disconnected', (error) => {
+      this.connected = false;
+      console.warn('OpenRGB: Lost connection to server:', error.message);
+      this.emit('disconnected', error);
+    });
   }
 
   async connect(): Promise<void> {
@@ -45,74 +114,26 @@ export class OpenRGBClient {
     this.connected = false;
   }
 
-  async discoverDevices(): Promise<Device[]> {
+  async discoverDevices(options: DiscoveryOptions = {}): Promise<Device[]> {
+    const { readOnly = false, setDirectMode = true, onProgress } = options;
+
     if (!this.connected) {
       throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
     }
 
-    console.log('OpenRGB: Starting device discovery...');
+    console.log(`OpenRGB: Starting ${readOnly ? 'read-only ' : ''}device discovery...`);
 
-    await this.networkClient.registerClient();
+    this.readOnly = readOnly;
+    this.discoverySetsDirectMode = setDirectMode;
+    if (!readOnly) {
+      await this.networkClient.registerClient();
+    }
 
     try {
-      const deviceCount = await this.networkClient.getControllerCount();
-      console.log(`OpenRGB: Found ${deviceCount} devices`);
+      this.devices = await this.enumerateDevices(onProgress);
 
-      this.devices = [];
-      for (let i = 0; i < deviceCount; i++) {
-        try {
-          const deviceData = await this.networkClient.getControllerData(i);
-
-          let directModeIndex = 0;
-          for (let j = 0; j < deviceData.modes.length; j++) {
-            const mode = deviceData.modes[j];
-            if (mode?.name.toLowerCase().includes('direct')) {
-              directModeIndex = j;
-              break;
-            }
-          }
-
-          const stableId = this.computeStableId(deviceData);
-
-          const device: Device = {
-            ephemeralId: i,
-            stableId,
-            name: deviceData.name,
-            ledCount: deviceData.leds.length,
-            directModeIndex: directModeIndex,
-            data: deviceData,
-          };
-
-          if (device.ledCount > 0) {
-            try {
-              await this.networkClient.setDeviceMode(device.ephemeralId, device.directModeIndex);
-              console.log(
-                `OpenRGB: Device ${i} (stableId=${device.stableId}) - Set to direct mode ${device.directModeIndex} during discovery`,
-              );
-            } catch (modeError) {
-              console.warn(
-                `OpenRGB: Failed to set device ${i} (stableId=${device.stableId}) to direct mode during discovery:`,
-                (modeError as Error).message,
-              );
-            }
-          }
-
-          this.devices.push(device);
-          console.log(
-            `OpenRGB: Device ${i}: ${device.name} (${device.ledCount} LEDs, direct mode: ${device.directModeIndex}, stableId=${device.stableId})`,
-          );
-        } catch (error) {
-          console.warn(`OpenRGB: Failed to get device ${i}:`, (error as Error).message);
-
-          this.devices.push({
-            ephemeralId: i,
-            stableId: `failed-${i}`,
-            name: `Device ${i} (Failed)`,
-            ledCount: 0,
-            directModeIndex: 0,
-            data: null,
-          });
-        }
+      if (setDirectMode && !readOnly) {
+        await Promise.all(this.devices.map((device) => this.enterDirectMode(device)));
       }
 
       if (this.devices.length === 0) {
@@ -122,6 +143,9 @@ export class OpenRGBClient {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error('OpenRGB: Device discovery failed:', message);
+      if (error instanceof OpenRGBTimeoutError) {
+        throw error;
+      }
       throw new OpenRGBError(`Device discovery failed: ${message}`);
     }
 
@@ -129,6 +153,187 @@ export class OpenRGBClient {
     return this.devices;
   }
 
+  /**
+   * Re-enumerate the server's devices and reconcile them with the known list by stableId.
+   * Added devices the device filter allows are switched to direct mode (if discovery
+   * did so) and receive the last color sent, unless the last discovery was read-only.
+   */
+  async refreshDevices(): Promise<DeviceListChanges> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+
+    console.log('OpenRGB: Refreshing device list...');
+
+    const previous = this.devices;
+    const current = await this.enumerateDevices();
+
+    const unmatched = [...previous];
+    const added: Device[] = [];
+    for (const device of current) {
+      const index = unmatched.findIndex((known) => known.stableId === device.stableId);
+      if (index > -1) {
+        unmatched.splice(index, 1);
+      } else {
+        added.push(device);
+      }
+    }
+    const removed = unmatched;
+
+    this.devices = current;
+
+    const devicesToSync = this.readOnly
+      ? []
+      : added.filter((device) => this.deviceFilter?.(device) ?? true);
+
+    if (this.discoverySetsDirectMode) {
+      await Promise.all(devicesToSync.map((device) => this.enterDirectMode(device)));
+    }
+
+    const color = this.lastColor;
+    if (color && devicesToSync.length > 0) {
+      await this.setDevicesColor(devicesToSync, color, this.lastSetDirectMode);
+    }
+
+    console.log(
+      `OpenRGB: Device list refreshed - ${current.length} devices (${added.length} added, ${removed.length} removed)`,
+    );
+
+    if (removed.length > 0) {
+      this.emit('devicesRemoved', removed);
+    }
+    if (added.length > 0) {
+      this.emit('devicesAdded', added);
+    }
+
+    return { added, removed };
+  }
+
+  /**
+   * Device name substrings (case-insensitive) of controllers that drop LED updates
+   * sent right after a mode switch, on top of DEVICE_QUIRKS.SLOW_MODE_SWITCH
+   */
+  setSlowModeSwitchDevices(names: readonly string[]): void {
+    this.slowModeSwitchDevices = [
+      ...DEVICE_QUIRKS.SLOW_MODE_SWITCH,
+      ...names.map((name) => name.trim()).filter((name) => name !== ''),
+    ];
+  }
+
+  /**
+   * Restrict which newly added devices are switched to direct mode and receive
+   * the last color during a refresh
+   */
+  setDeviceFilter(filter: ((device: Device) => boolean) | null): void {
+    this.deviceFilter = filter;
+  }
+
+  private async handleDeviceListUpdated(): Promise<void> {
+    // OpenRGB sends several updates while it rescans; collapse them into one follow-up refresh
+    if (this.refreshInProgress) {
+      this.refreshQueued = true;
+      return;
+    }
+
+    this.refreshInProgress = true;
+    try {
+      do {
+        this.refreshQueued = false;
+        await this.refreshDevices();
+      } while (this.refreshQueued && this.connected);
+    } catch (error) {
+      console.warn('OpenRGB: Device list refresh failed:', (error as Error).message);
+    } finally {
+      this.refreshInProgress = false;
+    }
+  }
+
+  private async enumerateDevices(
+    onProgress?: (discovered: number, total: number) => void,
+  ): Promise<Device[]> {
+    const deviceCount = await this.networkClient.getControllerCount();
+    console.log(`OpenRGB: Found ${deviceCount} devices`);
+    onProgress?.(0, deviceCount);
+
+    // Pipeline every request; replies are matched to requests by device index
+    let discovered = 0;
+    const results = await Promise.allSettled(
+      Array.from({ length: deviceCount }, async (_, i) => {
+        try {
+          return await this.networkClient.getControllerData(i);
+        } finally {
+          discovered++;
+          onProgress?.(discovered, deviceCount);
+        }
+      }),
+    );
+
+    return results.map((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`OpenRGB: Failed to get device ${i}:`, (result.reason as Error).message);
+
+        return {
+          ephemeralId: i,
+          stableId: `failed-${i}`,
+          name: `Device ${i} (Failed)`,
+          type: DeviceType.UNKNOWN,
+          vendor: '',
+          ledCount: 0,
+          directModeIndex: 0,
+          staticModeIndex: null,
+          data: null,
+        };
+      }
+
+      const deviceData = result.value;
+
+      const directModeIndex = findDirectModeIndex(deviceData.modes);
+      const staticModeIndex = findStaticModeIndex(deviceData.modes, directModeIndex);
+
+      const stableId = this.computeStableId(deviceData);
+
+      const device: Device = {
+        ephemeralId: i,
+        stableId,
+        name: deviceData.name,
+        type: deviceData.type,
+        vendor: deviceData.vendor,
+        ledCount: deviceData.leds.length,
+        directModeIndex: directModeIndex,
+        staticModeIndex,
+        data: deviceData,
+      };
+
+      console.log(
+        `OpenRGB: Device ${i}: ${device.name} (${device.ledCount} LEDs, direct mode: ${device.directModeIndex}, stableId=${device.stableId})`,
+      );
+      return device;
+    });
+  }
+
+  private async enterDirectMode(device: Device): Promise<void> {
+    if (device.ledCount === 0) {
+      return;
+    }
+
+    try {
+      await this.networkClient.setDeviceMode(
+        device.ephemeralId,
+        device.directModeIndex,
+        this.getMode(device, device.directModeIndex),
+        this.modeSwitchSettleTime(device),
+      );
+      console.log(
+        `OpenRGB: Device ${device.ephemeralId} (stableId=${device.stableId}) - Set to direct mode ${device.directModeIndex} during discovery`,
+      );
+    } catch (modeError) {
+      console.warn(
+        `OpenRGB: Failed to set device ${device.ephemeralId} (stableId=${device.stableId}) to direct mode during discovery:`,
+        (modeError as Error).message,
+      );
+    }
+  }
+
   async setAllDevicesColor(
     color: RGBColor,
     setDirectModeOnUpdate: boolean = false,
@@ -148,51 +353,71 @@ export class OpenRGBClient {
     }
 
     const validatedColor = validateRGBColor(color);
+    this.lastColor = validatedColor;
+    this.lastSetDirectMode = setDirectModeOnUpdate;
 
     console.log(`OpenRGB: Syncing ${devices.length} devices`);
 
+    const batch: Device[] = [];
     for (const device of devices) {
-      try {
-        if (device.ledCount === 0) {
+      if (device.ledCount === 0) {
+        console.log(
+          `OpenRGB: Skipping device ${device.ephemeralId} (stableId=${device.stableId}) - 0 LEDs`,
+        );
+        results.push({
+          deviceId: device.ephemeralId,
+          success: false,
+          error: 'Device skipped (0 LEDs)',
+        });
+        continue;
+      }
+
+      console.log(
+        `OpenRGB: Updating device ${device.ephemeralId} (${device.name}, stableId=${device.stableId}) with ${device.ledCount} LEDs`,
+      );
+
+      if (setDirectModeOnUpdate) {
+        try {
+          await this.networkClient.setDeviceMode(
+            device.ephemeralId,
+            device.directModeIndex,
+            this.getMode(device, device.directModeIndex),
+            this.modeSwitchSettleTime(device),
+          );
           console.log(
-            `OpenRGB: Skipping device ${device.ephemeralId} (stableId=${device.stableId}) - 0 LEDs`,
+            `OpenRGB: Device ${device.ephemeralId} (stableId=${device.stableId}) - Set to direct mode ${device.directModeIndex} before update`,
+          );
+        } catch (modeError) {
+          console.warn(
+            `OpenRGB: Failed to set device ${device.ephemeralId} (stableId=${device.stableId}) to direct mode before update:`,
+            (modeError as Error).message,
           );
-          results.push({
-            deviceId: device.ephemeralId,
-            success: false,
-            error: 'Device skipped (0 LEDs)',
-          });
-          continue;
         }
+      }
 
-        console.log(
-          `OpenRGB: Updating device ${device.ephemeralId} (${device.name}, stableId=${device.stableId}) with ${device.ledCount} LEDs`,
-        );
+      batch.push(device);
+    }
 
-        if (setDirectModeOnUpdate) {
-          try {
-            await this.networkClient.setDeviceMode(device.ephemeralId, device.directModeIndex);
-            console.log(
-              `OpenRGB: Device ${device.ephemeralId} (stableId=${device.stableId}) - Set to direct mode ${device.directModeIndex} before update`,
-            );
-          } catch (modeError) {
-            console.warn(
-              `OpenRGB: Failed to set device ${device.ephemeralId} (stableId=${device.stableId}) to direct mode before update:`,
-              (modeError as Error).message,
-            );
-          }
-        }
+    if (batch.length === 0) {
+      return results;
+    }
 
-        await this.networkClient.updateLeds(device.ephemeralId, validatedColor, device.ledCount);
-        console.log(
-          `OpenRGB: Device ${device.ephemeralId} (stableId=${device.stableId}) - Color update sent successfully`,
-        );
+    // All devices go out in a single write so a transition step costs one syscall
+    try {
+      await this.networkClient.updateLedsBatch(
+        batch.map((device) => ({
+          deviceId: device.ephemeralId,
+          color: validatedColor,
+          ledCount: device.ledCount,
+        })),
+      );
+      console.log(`OpenRGB: Color update sent to ${batch.length} devices`);
+      for (const device of batch) {
         results.push({ deviceId: device.ephemeralId, success: true });
-      } catch (error) {
-        console.error(
-          `OpenRGB: Failed to update device ${device.ephemeralId} (stableId=${device.stableId}):`,
-          (error as Error).message,
-        );
+      }
+    } catch (error) {
+      console.error(`OpenRGB: Failed to update ${batch.length} devices:`, (error as Error).message);
+      for (const device of batch) {
         results.push({
           deviceId: device.ephemeralId,
           success: false,
@@ -204,6 +429,193 @@ export class OpenRGBClient {
     return results;
   }
 
+  /**
+   * Paint a single zone of a device with one color, leaving its other zones untouched
+   */
+  async setZoneColor(stableId: string, zoneIndex: number, color: RGBColor): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+
+    const device = this.findDevice(stableId);
+    const zone = device.data?.zones[zoneIndex];
+    if (!zone) {
+      throw new OpenRGBError(
+        `Device ${device.name} (stableId=${stableId}) has no zone ${zoneIndex}`,
+        'INVALID_ZONE',
+      );
+    }
+
+    const validatedColor = validateRGBColor(color);
+    const colors = new Array<RGBColor>(zone.ledsCount).fill(validatedColor);
+
+    console.log(
+      `OpenRGB: Updating zone ${zoneIndex} (${zone.name}) of device ${device.ephemeralId} (stableId=${stableId}) with ${zone.ledsCount} LEDs`,
+    );
+    await this.networkClient.updateZoneLeds(device.ephemeralId, zoneIndex, colors);
+  }
+
+  /**
+   * Set every LED of a device individually; colors must have one entry per LED
+   */
+  async setDeviceLeds(stableId: string, colors: RGBColor[]): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+
+    const device = this.findDevice(stableId);
+    if (colors.length !== device.ledCount) {
+      throw new OpenRGBError(
+        `Device ${device.name} (stableId=${stableId}) has ${device.ledCount} LEDs but ${colors.length} colors were given`,
+        'INVALID_LED_COUNT',
+      );
+    }
+
+    const validatedColors = colors.map((color) => validateRGBColor(color));
+
+    console.log(
+      `OpenRGB: Updating ${device.ledCount} individual LEDs of device ${device.ephemeralId} (stableId=${stableId})`,
+    );
+    await this.networkClient.updateLeds(device.ephemeralId, validatedColors);
+  }
+
+  /**
+   * Switch a device to one of its modes, optionally changing speed, direction,
+   * brightness or mode colors. Returns the mode as sent to the server.
+   */
+  async setMode(
+    stableId: string,
+    modeIndex: number,
+    overrides: ModeOverrides = {},
+  ): Promise<DeviceMode> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+
+    const device = this.findDevice(stableId);
+    const baseMode = this.getMode(device, modeIndex);
+    const mode: DeviceMode = { ...baseMode, ...overrides, colors: [...baseMode.colors] };
+
+    if (overrides.speed !== undefined) {
+      // Some controllers report inverted ranges (speedMin > speedMax)
+      const low = Math.min(baseMode.speedMin, baseMode.speedMax);
+      const high = Math.max(baseMode.speedMin, baseMode.speedMax);
+      mode.speed = Math.max(low, Math.min(high, Math.floor(overrides.speed)));
+    }
+
+    if (overrides.brightness !== undefined && baseMode.brightnessMax !== undefined) {
+      const low = Math.min(baseMode.brightnessMin ?? 0, baseMode.brightnessMax);
+      const high = Math.max(baseMode.brightnessMin ?? 0, baseMode.brightnessMax);
+      mode.brightness = Math.max(low, Math.min(high, Math.floor(overrides.brightness)));
+    }
+
+    if (overrides.colors) {
+      if (
+        overrides.colors.length < baseMode.colorsMin ||
+        overrides.colors.length > baseMode.colorsMax
+      ) {
+        throw new OpenRGBError(
+          `Mode ${baseMode.name} accepts ${baseMode.colorsMin}-${baseMode.colorsMax} colors, got ${overrides.colors.length}`,
+          'INVALID_MODE_COLORS',
+        );
+      }
+      mode.colors = overrides.colors.map((color) => validateRGBColor(color));
+    }
+
+    await this.networkClient.setDeviceMode(device.ephemeralId, modeIndex, mode);
+
+    if (device.data) {
+      device.data.modes[modeIndex] = mode;
+      device.data.activeMode = modeIndex;
+    }
+
+    return mode;
+  }
+
+  /**
+   * Write a color into the device's static hardware mode and save it to onboard
+   * memory so it survives power cycles, then return the device to direct mode.
+   */
+  async saveColorToDevice(stableId: string, color: RGBColor): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+
+    const device = this.findDevice(stableId);
+    if (device.staticModeIndex === null) {
+      throw new OpenRGBError(
+        `Device ${device.name} (stableId=${stableId}) has no static mode to save to`,
+        'NO_STATIC_MODE',
+      );
+    }
+
+    const validatedColor = validateRGBColor(color);
+    const staticMode = this.getMode(device, device.staticModeIndex);
+    const overrides: ModeOverrides = {};
+    if (staticMode.colorMode !== ColorMode.PER_LED && staticMode.colorsMax > 0) {
+      overrides.colorMode = ColorMode.MODE_SPECIFIC;
+      overrides.colors = new Array<RGBColor>(Math.max(staticMode.colorsMin, 1)).fill(
+        validatedColor,
+      );
+    }
+
+    const mode = await this.setMode(stableId, device.staticModeIndex, overrides);
+    if (staticMode.colorMode === ColorMode.PER_LED && device.ledCount > 0) {
+      await this.networkClient.updateLeds(device.ephemeralId, validatedColor, device.ledCount);
+    }
+
+    await this.networkClient.saveMode(device.ephemeralId, device.staticModeIndex, mode);
+    console.log(
+      `OpenRGB: Device ${device.ephemeralId} (stableId=${stableId}) - Saved RGB(${validatedColor.r}, ${validatedColor.g}, ${validatedColor.b}) to mode ${device.staticModeIndex}`,
+    );
+
+    await this.enterDirectMode(device);
+  }
+
+  /**
+   * Names of the profiles stored on the OpenRGB server
+   */
+  async getProfiles(): Promise<string[]> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+    return this.networkClient.getProfileList();
+  }
+
+  /**
+   * Save the server's current device state as a named profile
+   */
+  async saveProfile(name: string): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+    await this.networkClient.saveProfile(name);
+    console.log(`OpenRGB: Saved profile "${name}"`);
+  }
+
+  /**
+   * Load a named server profile. Devices leave direct mode, so a later color
+   * update must switch them back (discoverDevices or setDirectModeOnUpdate).
+   */
+  async loadProfile(name: string): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+    await this.networkClient.loadProfile(name);
+    console.log(`OpenRGB: Loaded profile "${name}"`);
+  }
+
+  /**
+   * Delete a named server profile
+   */
+  async deleteProfile(name: string): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Client is not connected to OpenRGB server');
+    }
+    await this.networkClient.deleteProfile(name);
+    console.log(`OpenRGB: Deleted profile "${name}"`);
+  }
+
   /**
    * Get the list of discovered devices
    */
@@ -211,6 +623,28 @@ export class OpenRGBClient {
     return [...this.devices];
   }
 
+  /**
+   * stableIds that earlier releases gave discovered devices, keyed by the
+   * current stableId. Only devices whose id has changed are listed.
+   */
+  getLegacyStableIds(): Map<string, string> {
+    return new Map(this.legacyStableIds);
+  }
+
+  /**
+   * Get the resolved address the client is connected to
+   */
+  getConnectedAddress(): string | null {
+    return this.networkClient.getConnectedAddress();
+  }
+
+  /**
+   * Get the protocol version negotiated with the server
+   */
+  getProtocolVersion(): number {
+    return this.networkClient.getProtocolVersion();
+  }
+
   /**
    * Get device count
    */
@@ -218,16 +652,58 @@ export class OpenRGBClient {
     return this.devices.length;
   }
 
+  /**
+   * Look up a discovered device by stableId
+   */
+  private findDevice(stableId: string): Device {
+    const device = this.devices.find((d) => d.stableId === stableId);
+    if (!device) {
+      throw new OpenRGBError(`Unknown device: ${stableId}`, 'DEVICE_NOT_FOUND');
+    }
+    return device;
+  }
+
+  /**
+   * Pause needed after switching modes before LED updates stick (0 for most controllers)
+   */
+  private modeSwitchSettleTime(device: Device): number {
+    const name = device.name.toLowerCase();
+    const slow = this.slowModeSwitchDevices.some((quirk) => name.includes(quirk.toLowerCase()));
+    return slow ? DEVICE_QUIRKS.MODE_SWITCH_SETTLE_TIME : 0;
+  }
+
+  /**
+   * Look up one of a device's modes by index
+   */
+  private getMode(device: Device, modeIndex: number): DeviceMode {
+    const mode = device.data?.modes[modeIndex];
+    if (!mode) {
+      throw new OpenRGBError(
+        `Device ${device.name} (stableId=${device.stableId}) has no mode ${modeIndex}`,
+        'INVALID_MODE',
+      );
+    }
+    return mode;
+  }
+
   /**
    * Compute deterministic stableId from DeviceData
    */
   private computeStableId(deviceData: DeviceData): string {
     const fingerprint = buildDeviceFingerprint({
-      serial: (deviceData as any).serial,
-      location: (deviceData as any).location,
+      serial: deviceData.serial,
+      location: deviceData.location,
       name: deviceData.name,
       ledCount: deviceData.leds.length,
     });
-    return hashFingerprint(fingerprint, GLib);
+    const stableId = hashFingerprint(fingerprint, this.platform.sha256);
+
+    if (this.platform.legacySha256) {
+      const legacyStableId = hashFingerprint(fingerprint, this.platform.legacySha256);
+      if (legacyStableId !== stableId) {
+        this.legacyStableIds.set(stableId, legacyStableId);
+      }
+    }
+    return stableId;
   }
 }
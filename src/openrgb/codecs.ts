@@ -0,0 +1,319 @@
+import { PROTOCOL, VALIDATION } from './constants.js';
+import { DeviceData } from './device.js';
+import { PacketType } from './enums.js';
+import { OpenRGBProtocolError } from './errors.js';
+import { BinaryParser, BinaryWriter } from './parser.js';
+import { type DeviceMode, type RGBColor, validateRGBColor } from './types.js';
+
+/**
+ * Encode/decode pairs for every SDK packet. Requests are what a client sends,
+ * replies what the server answers with; packets without a reply have a null
+ * reply codec. Decoding is the exact inverse of encoding, so every payload
+ * round-trips and the same codecs can speak either side of the protocol.
+ */
+
+export const PACKET_MAGIC = [0x4f, 0x52, 0x47, 0x42]; // 'ORGB'
+
+export interface PacketHeader {
+  deviceId: number;
+  packetType: number;
+  dataSize: number;
+}
+
+export interface PayloadCodec<T> {
+  encode(value: T, protocolVersion: number): ArrayBuffer;
+  decode(data: ArrayBuffer, protocolVersion: number): T;
+}
+
+/** RGBCONTROLLER_UPDATEMODE and RGBCONTROLLER_SAVEMODE payload */
+export interface ModeUpdate {
+  modeIndex: number;
+  mode: DeviceMode;
+}
+
+/** RGBCONTROLLER_UPDATEZONELEDS payload */
+export interface ZoneLedUpdate {
+  zoneIndex: number;
+  colors: RGBColor[];
+}
+
+/** Decoded request and reply payload of each packet type; null means no reply */
+export interface PacketPayloads {
+  [PacketType.REQUEST_CONTROLLER_COUNT]: { request: undefined; reply: number };
+  /** The request carries the client's protocol version, 0 sends an empty payload */
+  [PacketType.REQUEST_CONTROLLER_DATA]: { request: number; reply: DeviceData };
+  [PacketType.REQUEST_PROTOCOL_VERSION]: { request: number; reply: number };
+  [PacketType.RGBCONTROLLER_UPDATELEDS]: { request: RGBColor[]; reply: null };
+  [PacketType.RGBCONTROLLER_UPDATEZONELEDS]: { request: ZoneLedUpdate; reply: null };
+  [PacketType.RGBCONTROLLER_UPDATEMODE]: { request: ModeUpdate; reply: null };
+  [PacketType.RGBCONTROLLER_SAVEMODE]: { request: ModeUpdate; reply: null };
+  [PacketType.SET_CLIENT_NAME]: { request: string; reply: null };
+  /** Sent by the server on its own, modelled as a request without a reply */
+  [PacketType.DEVICE_LIST_UPDATED]: { request: undefined; reply: null };
+  [PacketType.REQUEST_PROFILE_LIST]: { request: undefined; reply: string[] };
+  [PacketType.REQUEST_SAVE_PROFILE]: { request: string; reply: null };
+  [PacketType.REQUEST_LOAD_PROFILE]: { request: string; reply: null };
+  [PacketType.REQUEST_DELETE_PROFILE]: { request: string; reply: null };
+}
+
+export type PacketRequest<T extends PacketType> = PacketPayloads[T]['request'];
+export type PacketReply<T extends PacketType> = Exclude<PacketPayloads[T]['reply'], null>;
+
+export interface PacketCodec<T extends PacketType> {
+  request: PayloadCodec<PacketRequest<T>>;
+  reply: PayloadCodec<PacketReply<T>> | null;
+}
+
+const emptyCodec: PayloadCodec<undefined> = {
+  encode: () => new ArrayBuffer(0),
+  decode: () => undefined,
+};
+
+function uint32Codec(packetType: PacketType, description: string): PayloadCodec<number> {
+  return {
+    encode: (value) => {
+      const writer = new BinaryWriter(4);
+      writer.writeUint32(value);
+      return writer.toArrayBuffer();
+    },
+    decode: (data) => {
+      if (data.byteLength < 4) {
+        throw new OpenRGBProtocolError(`Invalid ${description}`, packetType);
+      }
+      return new DataView(data).getUint32(0, true);
+    },
+  };
+}
+
+/**
+ * Profile packets carry the bare name with a NUL terminator and no length prefix
+ */
+const profileNameCodec: PayloadCodec<string> = {
+  encode: (name) => {
+    const encoded = new TextEncoder().encode(name);
+    const data = new Uint8Array(encoded.length + 1);
+    data.set(encoded);
+    return data.buffer;
+  },
+  decode: (data) => new TextDecoder().decode(data).replace(/\0+$/, ''),
+};
+
+const modeUpdateCodec: PayloadCodec<ModeUpdate> = {
+  encode: ({ modeIndex, mode }, protocolVersion) =>
+    DeviceData.encodeModeUpdate(modeIndex, mode, protocolVersion),
+  decode: (data, protocolVersion) => {
+    const parser = new BinaryParser(data);
+    parser.readUint32(); // data size
+    const modeIndex = parser.readUint32();
+    return { modeIndex, mode: DeviceData.parseMode(parser, protocolVersion) };
+  },
+};
+
+function writeColors(writer: BinaryWriter, colors: RGBColor[]): void {
+  writer.writeUint16(colors.length);
+  for (const color of colors) {
+    writer.writeRGBColor(validateRGBColor(color));
+  }
+}
+
+function readColors(parser: BinaryParser): RGBColor[] {
+  const count = parser.readCount(VALIDATION.MAX_LEDS_PER_DEVICE, 'Color');
+  return Array.from({ length: count }, () => parser.readRGBColor());
+}
+
+export const PACKET_CODECS: { [T in PacketType]: PacketCodec<T> } = {
+  [PacketType.REQUEST_CONTROLLER_COUNT]: {
+    request: emptyCodec,
+    reply: uint32Codec(PacketType.REQUEST_CONTROLLER_COUNT, 'controller count response'),
+  },
+  [PacketType.REQUEST_CONTROLLER_DATA]: {
+    request: {
+      encode: (version) => {
+        const writer = new BinaryWriter(4);
+        if (version > 0) {
+          writer.writeUint32(version);
+        }
+        return writer.toArrayBuffer();
+      },
+      decode: (data) => (data.byteLength >= 4 ? new DataView(data).getUint32(0, true) : 0),
+    },
+    reply: {
+      encode: (device, protocolVersion) => DeviceData.serialize(device, protocolVersion),
+      decode: (data, protocolVersion) => DeviceData.parse(data, protocolVersion),
+    },
+  },
+  [PacketType.REQUEST_PROTOCOL_VERSION]: {
+    request: uint32Codec(PacketType.REQUEST_PROTOCOL_VERSION, 'protocol version request'),
+    reply: uint32Codec(PacketType.REQUEST_PROTOCOL_VERSION, 'protocol version response'),
+  },
+  [PacketType.RGBCONTROLLER_UPDATELEDS]: {
+    request: {
+      encode: (colors) => {
+        const writer = new BinaryWriter(6 + colors.length * PROTOCOL.COLOR_SIZE);
+        writer.writeUint32(0); // data size, patched below
+        writeColors(writer, colors);
+        writer.patchUint32(0, writer.getCurrentOffset());
+        return writer.toArrayBuffer();
+      },
+      decode: (data) => {
+        const parser = new BinaryParser(data);
+        parser.readUint32(); // data size
+        return readColors(parser);
+      },
+    },
+    reply: null,
+  },
+  [PacketType.RGBCONTROLLER_UPDATEZONELEDS]: {
+    request: {
+      encode: ({ zoneIndex, colors }) => {
+        const writer = new BinaryWriter(10 + colors.length * PROTOCOL.COLOR_SIZE);
+        writer.writeUint32(0); // data size, patched below
+        writer.writeUint32(zoneIndex);
+        writeColors(writer, colors);
+        writer.patchUint32(0, writer.getCurrentOffset());
+        return writer.toArrayBuffer();
+      },
+      decode: (data) => {
+        const parser = new BinaryParser(data);
+        parser.readUint32(); // data size
+        const zoneIndex = parser.readUint32();
+        return { zoneIndex, colors: readColors(parser) };
+      },
+    },
+    reply: null,
+  },
+  [PacketType.RGBCONTROLLER_UPDATEMODE]: { request: modeUpdateCodec, reply: null },
+  [PacketType.RGBCONTROLLER_SAVEMODE]: { request: modeUpdateCodec, reply: null },
+  [PacketType.SET_CLIENT_NAME]: {
+    request: {
+      encode: (name) => {
+        const writer = new BinaryWriter();
+        writer.writeString(name);
+        return writer.toArrayBuffer();
+      },
+      decode: (data) => new BinaryParser(data).readString(),
+    },
+    reply: null,
+  },
+  [PacketType.DEVICE_LIST_UPDATED]: { request: emptyCodec, reply: null },
+  [PacketType.REQUEST_PROFILE_LIST]: {
+    request: emptyCodec,
+    reply: {
+      encode: (profiles) => {
+        const writer = new BinaryWriter();
+        writer.writeUint32(0); // data size, patched below
+        writer.writeUint16(profiles.length);
+        for (const profile of profiles) {
+          writer.writeString(`${profile}\0`);
+        }
+        writer.patchUint32(0, writer.getCurrentOffset());
+        return writer.toArrayBuffer();
+      },
+      decode: (data) => {
+        const parser = new BinaryParser(data);
+        parser.readUint32(); // data size
+        const profileCount = parser.readUint16();
+        return Array.from({ length: profileCount }, () => parser.readString().replace(/\0+$/, ''));
+      },
+    },
+  },
+  [PacketType.REQUEST_SAVE_PROFILE]: { request: profileNameCodec, reply: null },
+  [PacketType.REQUEST_LOAD_PROFILE]: { request: profileNameCodec, reply: null },
+  [PacketType.REQUEST_DELETE_PROFILE]: { request: profileNameCodec, reply: null },
+};
+
+export function encodeRequest<T extends PacketType>(
+  packetType: T,
+  value: PacketRequest<T>,
+  protocolVersion: number = 0,
+): ArrayBuffer {
+  return PACKET_CODECS[packetType].request.encode(value, protocolVersion);
+}
+
+export function decodeRequest<T extends PacketType>(
+  packetType: T,
+  data: ArrayBuffer,
+  protocolVersion: number = 0,
+): PacketRequest<T> {
+  return PACKET_CODECS[packetType].request.decode(data, protocolVersion);
+}
+
+export function encodeReply<T extends PacketType>(
+  packetType: T,
+  value: PacketReply<T>,
+  protocolVersion: number = 0,
+): ArrayBuffer {
+  return replyCodec(packetType).encode(value, protocolVersion);
+}
+
+export function decodeReply<T extends PacketType>(
+  packetType: T,
+  data: ArrayBuffer,
+  protocolVersion: number = 0,
+): PacketReply<T> {
+  return replyCodec(packetType).decode(data, protocolVersion);
+}
+
+function replyCodec<T extends PacketType>(packetType: T): PayloadCodec<PacketReply<T>> {
+  const codec = PACKET_CODECS[packetType].reply;
+  if (!codec) {
+    throw new OpenRGBProtocolError(`Packet ${packetType} has no reply`, packetType);
+  }
+  return codec;
+}
+
+/**
+ * Write the 16-byte header at the start of frame
+ */
+export function writePacketHeader(frame: Uint8Array, header: PacketHeader): void {
+  const view = new DataView(frame.buffer, frame.byteOffset, PROTOCOL.HEADER_SIZE);
+
+  frame.set(PACKET_MAGIC);
+  view.setUint32(4, header.deviceId, true);
+  view.setUint32(8, header.packetType, true);
+  view.setUint32(12, header.dataSize, true);
+}
+
+/**
+ * Read the 16-byte header at the start of bytes, rejecting frames that do not
+ * start with the magic or announce more than the maximum packet size
+ */
+export function readPacketHeader(bytes: Uint8Array): PacketHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, PROTOCOL.HEADER_SIZE);
+
+  for (let i = 0; i < PACKET_MAGIC.length; i++) {
+    if (view.getUint8(i) !== PACKET_MAGIC[i]) {
+      throw new OpenRGBProtocolError('Invalid packet magic, stream out of sync');
+    }
+  }
+
+  const header: PacketHeader = {
+    deviceId: view.getUint32(4, true),
+    packetType: view.getUint32(8, true),
+    dataSize: view.getUint32(12, true),
+  };
+  if (header.dataSize > PROTOCOL.MAX_PACKET_SIZE) {
+    throw new OpenRGBProtocolError(
+      `Packet of ${header.dataSize} bytes exceeds maximum packet size`,
+      header.packetType,
+    );
+  }
+  return header;
+}
+
+/**
+ * Build a complete frame: header followed by the payload
+ */
+export function encodeFrame(
+  deviceId: number,
+  packetType: PacketType,
+  data?: ArrayBuffer,
+): Uint8Array {
+  const dataSize = data ? data.byteLength : 0;
+  const frame = new Uint8Array(PROTOCOL.HEADER_SIZE + dataSize);
+  writePacketHeader(frame, { deviceId, packetType, dataSize });
+  if (data) {
+    frame.set(new Uint8Array(data), PROTOCOL.HEADER_SIZE);
+  }
+  return frame;
+}
@@ -25,6 +25,27 @@ export const PROTOCOL = {
   DEFAULT_TIMEOUT: 10000,
   /** Size of each color in bytes (RGBA) */
   COLOR_SIZE: 4,
+  /** Highest SDK protocol version implemented by this client */
+  MAX_VERSION: 5,
+  /** How long to wait for a protocol version reply before assuming an unversioned (0) server */
+  VERSION_NEGOTIATION_TIMEOUT: 1000,
+  /** First protocol version with server-side profile packets */
+  MIN_PROFILE_VERSION: 2,
+  /** Interval between liveness checks on an idle connection (0 disables them) */
+  HEARTBEAT_INTERVAL: 5000,
+  /** How long a liveness check may take before the connection is considered dead */
+  HEARTBEAT_TIMEOUT: 3000,
+} as const;
+
+/** Per-controller workarounds */
+export const DEVICE_QUIRKS = {
+  /** Pause after a mode switch for controllers that drop LED updates sent right after it */
+  MODE_SWITCH_SETTLE_TIME: 200,
+  /**
+   * Device name substrings (case-insensitive) of controllers known to need the pause;
+   * OpenRGBClient.setSlowModeSwitchDevices adds more at runtime
+   */
+  SLOW_MODE_SWITCH: [] as readonly string[],
 } as const;
 
 /** Buffer size constants for network operations */
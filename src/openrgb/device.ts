@@ -1,35 +1,269 @@
-import { BinaryParser } from './parser.js';
-import type { DeviceLED, DeviceMode, DeviceZone, RGBColor } from './types.js';
+import { VALIDATION } from './constants.js';
+import { DeviceType, type ZoneType } from './enums.js';
+import { OpenRGBParseError } from './errors.js';
+import { BinaryParser, BinaryWriter } from './parser.js';
+import type { DeviceLED, DeviceMode, DeviceSegment, DeviceZone, RGBColor } from './types.js';
 
 export class DeviceData {
+  type: DeviceType;
   name: string;
+  vendor: string;
   description: string;
   version: string;
   serial: string;
   location: string;
+  activeMode: number;
   modes: DeviceMode[];
   zones: DeviceZone[];
   leds: DeviceLED[];
   colors: RGBColor[];
+  ledAltNames: string[];
+  flags: number;
 
   constructor() {
+    this.type = DeviceType.UNKNOWN;
     this.name = '';
+    this.vendor = '';
     this.description = '';
     this.version = '';
     this.serial = '';
     this.location = '';
+    this.activeMode = 0;
     this.modes = [];
     this.zones = [];
     this.leds = [];
     this.colors = [];
+    this.ledAltNames = [];
+    this.flags = 0;
   }
 
-  static parse(data: ArrayBuffer): DeviceData {
+  /**
+   * Decode one mode struct as it appears in controller data and UPDATEMODE payloads
+   */
+  static parseMode(parser: BinaryParser, protocolVersion: number = 0): DeviceMode {
+    const mode: DeviceMode = {
+      name: parser.readString(),
+      value: parser.readUint32(),
+      flags: parser.readUint32(),
+      speedMin: parser.readUint32(),
+      speedMax: parser.readUint32(),
+      colorsMin: 0,
+      colorsMax: 0,
+      speed: 0,
+      direction: 0,
+      colorMode: 0,
+      colors: [],
+    };
+
+    if (protocolVersion >= 3) {
+      mode.brightnessMin = parser.readUint32();
+      mode.brightnessMax = parser.readUint32();
+    }
+    mode.colorsMin = parser.readUint32();
+    mode.colorsMax = parser.readUint32();
+    mode.speed = parser.readUint32();
+    if (protocolVersion >= 3) {
+      mode.brightness = parser.readUint32();
+    }
+    mode.direction = parser.readUint32();
+    mode.colorMode = parser.readUint32();
+
+    const modeColorCount: number = parser.readUint16();
+    for (let j = 0; j < modeColorCount; j++) {
+      mode.colors.push(parser.readRGBColor());
+    }
+
+    return mode;
+  }
+
+  /**
+   * Read a zone's matrix map: height, width, then one zone-local LED index per
+   * cell in row-major order, MATRIX_NO_LED marking cells without an LED.
+   */
+  static parseMatrixMap(
+    parser: BinaryParser,
+    matrixLength: number,
+  ): { height: number; width: number; map: number[][] } {
+    const start = parser.getCurrentOffset();
+    const fail = (reason: string) =>
+      new OpenRGBParseError(
+        `Matrix map of ${matrixLength} bytes at offset ${start} ${reason}, buffer size: ${start + parser.getRemainingBytes()}`,
+        start,
+        start + parser.getRemainingBytes(),
+      );
+
+    if (matrixLength < 8) {
+      throw fail('is too short');
+    }
+
+    const height = parser.readUint32();
+    const width = parser.readUint32();
+    if (height * width * 4 !== matrixLength - 8) {
+      throw fail(`does not hold ${height}x${width} cells`);
+    }
+
+    const map: number[][] = [];
+    for (let row = 0; row < height; row++) {
+      const cells: number[] = [];
+      for (let column = 0; column < width; column++) {
+        cells.push(parser.readUint32());
+      }
+      map.push(cells);
+    }
+    return { height, width, map };
+  }
+
+  /**
+   * Encode one mode struct; the exact inverse of parseMode
+   */
+  static writeMode(writer: BinaryWriter, mode: DeviceMode, protocolVersion: number = 0): void {
+    writer.writeString(mode.name);
+    writer.writeUint32(mode.value);
+    writer.writeUint32(mode.flags);
+    writer.writeUint32(mode.speedMin);
+    writer.writeUint32(mode.speedMax);
+    if (protocolVersion >= 3) {
+      writer.writeUint32(mode.brightnessMin ?? 0);
+      writer.writeUint32(mode.brightnessMax ?? 0);
+    }
+    writer.writeUint32(mode.colorsMin);
+    writer.writeUint32(mode.colorsMax);
+    writer.writeUint32(mode.speed);
+    if (protocolVersion >= 3) {
+      writer.writeUint32(mode.brightness ?? 0);
+    }
+    writer.writeUint32(mode.direction);
+    writer.writeUint32(mode.colorMode);
+
+    writer.writeUint16(mode.colors.length);
+    for (const color of mode.colors) {
+      writer.writeRGBColor(color);
+    }
+  }
+
+  /**
+   * Build an RGBCONTROLLER_UPDATEMODE payload: data_size, mode index, then the mode struct
+   */
+  static encodeModeUpdate(
+    modeIndex: number,
+    mode: DeviceMode,
+    protocolVersion: number = 0,
+  ): ArrayBuffer {
+    const writer = new BinaryWriter();
+    writer.writeUint32(0); // data size, patched below
+    writer.writeUint32(modeIndex);
+    DeviceData.writeMode(writer, mode, protocolVersion);
+    writer.patchUint32(0, writer.getCurrentOffset());
+    return writer.toArrayBuffer();
+  }
+
+  /**
+   * Encode a zone's matrix map; the inverse of parseMatrixMap, prefixed with
+   * the u16 matrix length that precedes it in controller data.
+   */
+  static writeMatrixMap(writer: BinaryWriter, zone: DeviceZone): void {
+    const map = zone.matrixMap;
+    if (!map || map.length === 0) {
+      writer.writeUint16(0);
+      return;
+    }
+
+    const height = zone.matrixHeight ?? map.length;
+    const width = zone.matrixWidth ?? map[0]!.length;
+    writer.writeUint16(8 + height * width * 4);
+    writer.writeUint32(height);
+    writer.writeUint32(width);
+    for (const row of map) {
+      for (const cell of row) {
+        writer.writeUint32(cell);
+      }
+    }
+  }
+
+  /**
+   * Encode a REQUEST_CONTROLLER_DATA payload in the layout of the given protocol
+   * version; the inverse of parse. Fields the version does not carry are dropped.
+   */
+  static serialize(device: DeviceData, protocolVersion: number = 0): ArrayBuffer {
+    const writer = new BinaryWriter(1024);
+    writer.writeUint32(0); // data size, patched below
+    writer.writeUint32(device.type);
+    writer.writeString(device.name);
+    if (protocolVersion >= 1) {
+      writer.writeString(device.vendor);
+    }
+    writer.writeString(device.description);
+    writer.writeString(device.version);
+    writer.writeString(device.serial);
+    writer.writeString(device.location);
+
+    writer.writeUint16(device.modes.length);
+    writer.writeUint32(device.activeMode);
+    for (const mode of device.modes) {
+      DeviceData.writeMode(writer, mode, protocolVersion);
+    }
+
+    writer.writeUint16(device.zones.length);
+    for (const zone of device.zones) {
+      writer.writeString(zone.name);
+      writer.writeUint32(zone.type);
+      writer.writeUint32(zone.ledsMin);
+      writer.writeUint32(zone.ledsMax);
+      writer.writeUint32(zone.ledsCount);
+      DeviceData.writeMatrixMap(writer, zone);
+
+      if (protocolVersion >= 4) {
+        const segments = zone.segments ?? [];
+        writer.writeUint16(segments.length);
+        for (const segment of segments) {
+          writer.writeString(segment.name);
+          writer.writeUint32(segment.type);
+          writer.writeUint32(segment.startIndex);
+          writer.writeUint32(segment.ledsCount);
+        }
+      }
+
+      if (protocolVersion >= 5) {
+        writer.writeUint32(zone.flags ?? 0);
+      }
+    }
+
+    writer.writeUint16(device.leds.length);
+    for (const led of device.leds) {
+      writer.writeString(led.name);
+      writer.writeUint32(led.value);
+    }
+
+    writer.writeUint16(device.colors.length);
+    for (const color of device.colors) {
+      writer.writeRGBColor(color);
+    }
+
+    if (protocolVersion >= 5) {
+      writer.writeUint16(device.ledAltNames.length);
+      for (const altName of device.ledAltNames) {
+        writer.writeString(altName);
+      }
+      writer.writeUint32(device.flags);
+    }
+
+    writer.patchUint32(0, writer.getCurrentOffset());
+    return writer.toArrayBuffer();
+  }
+
+  /**
+   * Parse a REQUEST_CONTROLLER_DATA payload. The layout depends on the protocol
+   * version negotiated with the server, so it must be passed in. Truncated or
+   * implausible data throws OpenRGBParseError rather than yielding a partial device.
+   */
+  static parse(data: ArrayBuffer, protocolVersion: number = 0): DeviceData {
     const parser = new BinaryParser(data);
     const device = new DeviceData();
 
     try {
-      console.log(`OpenRGB: Parsing device data, buffer size: ${data.byteLength}`);
+      console.log(
+        `OpenRGB: Parsing device data, buffer size: ${data.byteLength}, protocol: ${protocolVersion}`,
+      );
 
       const debugView = new Uint8Array(data, 0, Math.min(64, data.byteLength));
       const hexString = Array.from(debugView)
@@ -44,12 +278,24 @@ export class DeviceData {
       console.log('OpenRGB: Parsing binary protocol structure');
 
       const dataSize: number = parser.readUint32();
-      const commandType: number = parser.readUint32();
-      console.log(`OpenRGB: Header: data_size=${dataSize}, command_type=${commandType}`);
+      if (dataSize > data.byteLength) {
+        throw new OpenRGBParseError(
+          `Device data claims ${dataSize} bytes, buffer size: ${data.byteLength}`,
+          0,
+          data.byteLength,
+        );
+      }
+      device.type = parser.readUint32() as DeviceType;
+      console.log(`OpenRGB: Header: data_size=${dataSize}, device_type=${device.type}`);
 
       device.name = parser.readString();
       console.log(`OpenRGB: Device name: "${device.name}"`);
 
+      if (protocolVersion >= 1) {
+        device.vendor = parser.readString();
+        console.log(`OpenRGB: Vendor: "${device.vendor}"`);
+      }
+
       device.description = parser.readString();
       console.log(`OpenRGB: Description: "${device.description}"`);
 
@@ -63,29 +309,11 @@ export class DeviceData {
       console.log(`OpenRGB: Location: "${device.location}"`);
 
       const modeCount: number = parser.readUint16();
-      const activeModeIndex: number = parser.readUint32();
-      console.log(`OpenRGB: Modes: ${modeCount}, Active: ${activeModeIndex}`);
+      device.activeMode = parser.readUint32();
+      console.log(`OpenRGB: Modes: ${modeCount}, Active: ${device.activeMode}`);
 
       for (let i = 0; i < modeCount; i++) {
-        const mode: DeviceMode = {
-          name: parser.readString(),
-          value: parser.readUint32(),
-          flags: parser.readUint32(),
-          speedMin: parser.readUint32(),
-          speedMax: parser.readUint32(),
-          colorsMin: parser.readUint32(),
-          colorsMax: parser.readUint32(),
-          speed: parser.readUint32(),
-          direction: parser.readUint32(),
-          colorMode: parser.readUint32(),
-          colors: [],
-        };
-
-        const modeColorCount: number = parser.readUint16();
-        for (let j = 0; j < modeColorCount; j++) {
-          mode.colors.push(parser.readRGBColor());
-        }
-
+        const mode = DeviceData.parseMode(parser, protocolVersion);
         device.modes.push(mode);
         console.log(`OpenRGB: Mode ${i}: "${mode.name}" (${mode.colors.length} colors)`);
       }
@@ -96,27 +324,50 @@ export class DeviceData {
       for (let i = 0; i < zoneCount; i++) {
         const zone: DeviceZone = {
           name: parser.readString(),
-          type: parser.readUint32(),
+          type: parser.readUint32() as ZoneType,
           ledsMin: parser.readUint32(),
           ledsMax: parser.readUint32(),
           ledsCount: parser.readUint32(),
         };
+        if (zone.ledsCount > VALIDATION.MAX_LEDS_PER_DEVICE) {
+          throw new OpenRGBParseError(
+            `Zone "${zone.name}" LED count ${zone.ledsCount} exceeds limit ${VALIDATION.MAX_LEDS_PER_DEVICE}, buffer size: ${data.byteLength}`,
+            parser.getCurrentOffset() - 4,
+            data.byteLength,
+          );
+        }
 
         const matrixLength: number = parser.readUint16();
         if (matrixLength > 0) {
-          zone.matrixHeight = parser.readUint32();
-          zone.matrixWidth = parser.readUint32();
-          const matrixDataLength: number = matrixLength - 8;
-          if (matrixDataLength > 0) {
-            parser.skip(matrixDataLength);
+          const matrix = DeviceData.parseMatrixMap(parser, matrixLength);
+          zone.matrixHeight = matrix.height;
+          zone.matrixWidth = matrix.width;
+          zone.matrixMap = matrix.map;
+        }
+
+        if (protocolVersion >= 4) {
+          const segmentCount: number = parser.readUint16();
+          zone.segments = [];
+          for (let j = 0; j < segmentCount; j++) {
+            const segment: DeviceSegment = {
+              name: parser.readString(),
+              type: parser.readUint32(),
+              startIndex: parser.readUint32(),
+              ledsCount: parser.readUint32(),
+            };
+            zone.segments.push(segment);
           }
         }
 
+        if (protocolVersion >= 5) {
+          zone.flags = parser.readUint32();
+        }
+
         device.zones.push(zone);
         console.log(`OpenRGB: Zone ${i}: "${zone.name}" (${zone.ledsCount} LEDs)`);
       }
 
-      const ledCount: number = parser.readUint16();
+      const ledCount: number = parser.readCount(VALIDATION.MAX_LEDS_PER_DEVICE, 'LED');
       console.log(`OpenRGB: LEDs: ${ledCount}`);
 
       for (let i = 0; i < ledCount; i++) {
@@ -129,7 +380,7 @@ export class DeviceData {
         console.log(`OpenRGB: LED ${i}: "${led.name}" (value: ${led.value})`);
       }
 
-      const colorCount: number = parser.readUint16();
+      const colorCount: number = parser.readCount(VALIDATION.MAX_LEDS_PER_DEVICE, 'Color');
       console.log(`OpenRGB: Colors: ${colorCount}`);
 
       for (let i = 0; i < colorCount; i++) {
@@ -137,6 +388,18 @@ export class DeviceData {
         device.colors.push(color);
       }
 
+      if (protocolVersion >= 5) {
+        const altNameCount: number = parser.readCount(
+          VALIDATION.MAX_LEDS_PER_DEVICE,
+          'LED alt name',
+        );
+        for (let i = 0; i < altNameCount; i++) {
+          device.ledAltNames.push(parser.readString());
+        }
+        device.flags = parser.readUint32();
+        console.log(`OpenRGB: LED alt names: ${altNameCount}, flags: ${device.flags}`);
+      }
+
       console.log(
         `OpenRGB: Successfully parsed device: ${device.name} with ${device.leds.length} LEDs`,
       );
@@ -156,7 +419,14 @@ export class DeviceData {
         console.log(`OpenRGB: Context (${contextStart}-${contextEnd}): ${contextHex}`);
       }
 
-      return device;
+      if (error instanceof OpenRGBParseError) {
+        throw error;
+      }
+      throw new OpenRGBParseError(
+        `Invalid device data: ${error.message}`,
+        parser.getCurrentOffset(),
+        data.byteLength,
+      );
     }
   }
 }
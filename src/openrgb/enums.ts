@@ -2,7 +2,68 @@
 export enum PacketType {
   REQUEST_CONTROLLER_COUNT = 0,
   REQUEST_CONTROLLER_DATA = 1,
+  REQUEST_PROTOCOL_VERSION = 40,
   RGBCONTROLLER_UPDATELEDS = 1050,
-  RGBCONTROLLER_UPDATEMODE = 1054,
+  RGBCONTROLLER_UPDATEZONELEDS = 1051,
+  RGBCONTROLLER_UPDATEMODE = 1101,
+  RGBCONTROLLER_SAVEMODE = 1102,
   SET_CLIENT_NAME = 50,
+  DEVICE_LIST_UPDATED = 100,
+  REQUEST_PROFILE_LIST = 150,
+  REQUEST_SAVE_PROFILE = 151,
+  REQUEST_LOAD_PROFILE = 152,
+  REQUEST_DELETE_PROFILE = 153,
+}
+
+// Device category reported first in controller data (RGBController device_type)
+export enum DeviceType {
+  MOTHERBOARD = 0,
+  DRAM = 1,
+  GPU = 2,
+  COOLER = 3,
+  LEDSTRIP = 4,
+  KEYBOARD = 5,
+  MOUSE = 6,
+  MOUSEMAT = 7,
+  HEADSET = 8,
+  HEADSET_STAND = 9,
+  GAMEPAD = 10,
+  LIGHT = 11,
+  SPEAKER = 12,
+  VIRTUAL = 13,
+  STORAGE = 14,
+  CASE = 15,
+  MICROPHONE = 16,
+  ACCESSORY = 17,
+  KEYPAD = 18,
+  UNKNOWN = 19,
+}
+
+// Capability bits of mode.flags
+export enum ModeFlag {
+  HAS_SPEED = 1 << 0,
+  HAS_DIRECTION_LR = 1 << 1,
+  HAS_DIRECTION_UD = 1 << 2,
+  HAS_DIRECTION_HV = 1 << 3,
+  HAS_BRIGHTNESS = 1 << 4,
+  HAS_PER_LED_COLOR = 1 << 5,
+  HAS_MODE_SPECIFIC_COLOR = 1 << 6,
+  HAS_RANDOM_COLOR = 1 << 7,
+  MANUAL_SAVE = 1 << 8,
+  AUTOMATIC_SAVE = 1 << 9,
+}
+
+// Zone layout (zone.type)
+export enum ZoneType {
+  SINGLE = 0,
+  LINEAR = 1,
+  MATRIX = 2,
+}
+
+// How a mode takes its colors (mode.colorMode)
+export enum ColorMode {
+  NONE = 0,
+  PER_LED = 1,
+  MODE_SPECIFIC = 2,
+  RANDOM = 3,
 }
@@ -0,0 +1,41 @@
+/**
+ * Minimal typed event emitter shared by the OpenRGB client classes.
+ *
+ * Handler IDs mirror GObject signal IDs so callers can store and release
+ * them the same way they do for signals.
+ */
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+export class EventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private handlers: Map<number, { event: keyof Events; listener: Listener<any> }>;
+  private nextHandlerId: number;
+
+  constructor() {
+    this.handlers = new Map();
+    this.nextHandlerId = 1;
+  }
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): number {
+    const handlerId = this.nextHandlerId++;
+    this.handlers.set(handlerId, { event, listener });
+    return handlerId;
+  }
+
+  off(handlerId: number): void {
+    this.handlers.delete(handlerId);
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    for (const { event: handlerEvent, listener } of [...this.handlers.values()]) {
+      if (handlerEvent !== event) {
+        continue;
+      }
+      try {
+        listener(...args);
+      } catch (error) {
+        console.warn(`OpenRGB: Listener for "${String(event)}" failed:`, (error as Error).message);
+      }
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import Gio from 'gi://Gio';
+import GLib from 'gi://GLib';
+import { formatServerAddress } from './address.js';
+import { BUFFER_SIZES } from './constants.js';
+import { OpenRGBConnectionError } from './errors.js';
+import type {
+  Cancellation,
+  Platform,
+  Sha256,
+  Timers,
+  Transport,
+  TransportConnection,
+} from './transport.js';
+
+/**
+ * Transport, timers and hashing on GIO/GLib, for gnome-shell and the
+ * preferences window. Hostnames go through the GIO resolver.
+ */
+
+export interface ServerConnection {
+  connection: Gio.SocketConnection;
+  /** Address that accepted the connection, formatted as host:port */
+  address: string;
+}
+
+/**
+ * Resolve a host to every socket address it may be reached at, in resolver order
+ */
+export async function resolveServerAddresses(
+  host: string,
+  port: number,
+  cancellable: Gio.Cancellable | null = null,
+): Promise<Gio.InetSocketAddress[]> {
+  const literal = Gio.InetAddress.new_from_string(host);
+  if (literal) {
+    return [Gio.InetSocketAddress.new(literal, port)];
+  }
+
+  const inetAddresses = await new Promise<Gio.InetAddress[]>((resolve, reject) => {
+    Gio.Resolver.get_default().lookup_by_name_async(host, cancellable, (resolver, result) => {
+      try {
+        resolve(resolver!.lookup_by_name_finish(result));
+      } catch (error) {
+        reject(
+          new OpenRGBConnectionError(
+            `Could not resolve host "${host}": ${(error as Error).message}`,
+            host,
+            port,
+          ),
+        );
+      }
+    });
+  });
+
+  return inetAddresses.map((address) => Gio.InetSocketAddress.new(address, port));
+}
+
+/**
+ * Resolve the server and try each address in order until one accepts
+ */
+export async function connectToServer(
+  host: string,
+  port: number,
+  cancellable: Gio.Cancellable | null = null,
+): Promise<ServerConnection> {
+  const addresses = await resolveServerAddresses(host, port, cancellable);
+  if (addresses.length === 0) {
+    throw new OpenRGBConnectionError(`Host "${host}" has no addresses`, host, port);
+  }
+
+  const socket = new Gio.SocketClient();
+  const failures: string[] = [];
+
+  for (const address of addresses) {
+    const formatted = formatServerAddress(address.get_address().to_string(), port);
+    try {
+      const connection = await new Promise<Gio.SocketConnection>((resolve, reject) => {
+        socket.connect_async(address, cancellable, (source, result) => {
+          try {
+            resolve(source!.connect_finish(result));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+      return { connection, address: formatted };
+    } catch (error) {
+      if (cancellable?.is_cancelled()) {
+        throw error;
+      }
+      console.warn(`OpenRGB: Connection to ${formatted} failed:`, (error as Error).message);
+      failures.push(`${formatted}: ${(error as Error).message}`);
+    }
+  }
+
+  throw new OpenRGBConnectionError(
+    `Could not connect to ${formatServerAddress(host, port)} (${failures.join('; ')})`,
+    host,
+    port,
+  );
+}
+
+class GioConnection implements TransportConnection {
+  readonly address: string;
+  private connection: Gio.SocketConnection;
+  private readCancellable: Gio.Cancellable | null;
+  private writeQueue: Promise<void>;
+
+  constructor(connection: Gio.SocketConnection, address: string) {
+    this.address = address;
+    this.connection = connection;
+    this.readCancellable = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  startReading(onData: (chunk: Uint8Array) => void, onEnd: (error: Error | null) => void): void {
+    this.readCancellable?.cancel();
+    this.readCancellable = new Gio.Cancellable();
+    this.readNext(this.readCancellable, onData, onEnd);
+  }
+
+  private readNext(
+    cancellable: Gio.Cancellable,
+    onData: (chunk: Uint8Array) => void,
+    onEnd: (error: Error | null) => void,
+  ): void {
+    if (cancellable.is_cancelled()) {
+      return;
+    }
+
+    const inputStream = this.connection.get_input_stream();
+    inputStream.read_bytes_async(
+      BUFFER_SIZES.READ_BUFFER,
+      GLib.PRIORITY_DEFAULT,
+      cancellable,
+      (_source, result) => {
+        if (cancellable.is_cancelled()) {
+          return;
+        }
+
+        let chunk: Uint8Array | null = null;
+        try {
+          const bytes = inputStream.read_bytes_finish(result);
+          chunk = bytes && bytes.get_size() > 0 ? bytes.get_data() : null;
+        } catch (error) {
+          onEnd(error as Error);
+          return;
+        }
+
+        if (!chunk || chunk.length === 0) {
+          onEnd(null);
+          return;
+        }
+
+        onData(chunk);
+        this.readNext(cancellable, onData, onEnd);
+      },
+    );
+  }
+
+  /**
+   * GLib.Bytes copies the data right away; GIO streams allow one pending
+   * operation, so writes are queued behind each other.
+   */
+  write(data: Uint8Array, cancellation: Cancellation): Promise<void> {
+    const bytes = GLib.Bytes.new(data);
+    const write = this.writeQueue.then(() => this.writeBytes(bytes, cancellation));
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * A stream may accept only part of the buffer; the rest is written until
+   * every byte is out, or a torn frame would corrupt the protocol stream.
+   */
+  private async writeBytes(bytes: GLib.Bytes, cancellation: Cancellation): Promise<void> {
+    const cancellable = new Gio.Cancellable();
+    cancellation.onCancel(() => cancellable.cancel());
+
+    const outputStream = this.connection.get_output_stream();
+    let remaining = bytes;
+    for (;;) {
+      const written = await new Promise<number>((resolve, reject) => {
+        outputStream.write_bytes_async(
+          remaining,
+          GLib.PRIORITY_DEFAULT,
+          cancellable,
+          (source, result) => {
+            try {
+              resolve(source!.write_bytes_finish(result));
+            } catch (error) {
+              reject(error);
+            }
+          },
+        );
+      });
+      if (written >= remaining.get_size()) {
+        return;
+      }
+      if (written <= 0) {
+        throw new Error('Write failed: stream accepted no data');
+      }
+      remaining = remaining.new_from_bytes(written, remaining.get_size() - written);
+    }
+  }
+
+  close(): void {
+    this.readCancellable?.cancel();
+    this.readCancellable = null;
+    this.connection.close(null);
+  }
+}
+
+export class GioTransport implements Transport {
+  async connect(
+    host: string,
+    port: number,
+    cancellation: Cancellation,
+  ): Promise<TransportConnection> {
+    const cancellable = new Gio.Cancellable();
+    cancellation.onCancel(() => cancellable.cancel());
+
+    const { connection, address } = await connectToServer(host, port, cancellable);
+    return new GioConnection(connection, address);
+  }
+}
+
+export const gioTimers: Timers = {
+  setTimeout: (callback, delayMs) =>
+    GLib.timeout_add(GLib.PRIORITY_DEFAULT, delayMs, () => {
+      callback();
+      return GLib.SOURCE_REMOVE;
+    }),
+  clearTimeout: (id) => {
+    GLib.source_remove(id);
+  },
+};
+
+// The length counts UTF-8 bytes, not UTF-16 code units; -1 hashes the whole string
+export const gioSha256: Sha256 = (text) =>
+  GLib.compute_checksum_for_string(GLib.ChecksumType.SHA256, text, -1) ?? '';
+
+// Earlier releases passed the UTF-16 length, hashing only part of a non-ASCII
+// fingerprint; kept to recognise the stableIds they stored in settings
+export const gioLegacySha256: Sha256 = (text) =>
+  GLib.compute_checksum_for_string(GLib.ChecksumType.SHA256, text, text.length) ?? '';
+
+export const gioPlatform: Platform = {
+  transport: new GioTransport(),
+  timers: gioTimers,
+  sha256: gioSha256,
+  legacySha256: gioLegacySha256,
+};
@@ -1,24 +1,14 @@
-// GLib is available at runtime inside GNOME (GJS). In the test environment this import will fail type checking
-// unless ambient declarations are provided; we rely on a loose any typing fallback when absent.
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-// @ts-ignore - Provided by GJS at runtime
-import GLib from 'gi://GLib';
+import type { Sha256 } from './transport.js';
 
 /**
- * Hash a fingerprint string using GLib SHA-256.
+ * Hash a fingerprint string with the platform's SHA-256.
  * Returns first 16 hex characters of SHA-256.
  */
-export function hashFingerprint(fingerprint: string, glibOverride?: typeof GLib): string {
-  const glibInstance = glibOverride ?? GLib;
-
-  const full = glibInstance.compute_checksum_for_string(
-    glibInstance.ChecksumType.SHA256,
-    fingerprint,
-    fingerprint.length,
-  );
+export function hashFingerprint(fingerprint: string, sha256: Sha256): string {
+  const full = sha256(fingerprint);
 
   if (!full) {
-    throw new Error('hashFingerprint: GLib returned empty hash');
+    throw new Error('hashFingerprint: sha256 returned empty hash');
   }
 
   return full.slice(0, 16);
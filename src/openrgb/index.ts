@@ -1,8 +1,35 @@
+export { formatServerAddress, parseServerAddress, type ServerAddress } from './address.js';
 // Main classes
-export { type Device, OpenRGBClient } from './client.js';
+export {
+  type Device,
+  type DeviceListChanges,
+  type DiscoveryOptions,
+  type ModeOverrides,
+  OpenRGBClient,
+  type OpenRGBClientEvents,
+} from './client.js';
+export {
+  decodeReply,
+  decodeRequest,
+  encodeFrame,
+  encodeReply,
+  encodeRequest,
+  type ModeUpdate,
+  PACKET_CODECS,
+  PACKET_MAGIC,
+  type PacketCodec,
+  type PacketHeader,
+  type PacketPayloads,
+  type PacketReply,
+  type PacketRequest,
+  type PayloadCodec,
+  readPacketHeader,
+  writePacketHeader,
+  type ZoneLedUpdate,
+} from './codecs.js';
 export { DeviceData } from './device.js';
 // Enums
-export { PacketType } from './enums.js';
+export { ColorMode, DeviceType, ModeFlag, PacketType, ZoneType } from './enums.js';
 export {
   formatErrorMessage,
   isOpenRGBError,
@@ -12,9 +39,47 @@ export {
   OpenRGBProtocolError,
   OpenRGBTimeoutError,
 } from './errors.js';
-export { NetworkClient } from './network.js';
-export { BinaryParser } from './parser.js';
+export {
+  connectToServer,
+  GioTransport,
+  gioLegacySha256,
+  gioPlatform,
+  gioSha256,
+  gioTimers,
+  resolveServerAddresses,
+  type ServerConnection,
+} from './gio-transport.js';
+export {
+  ledIndexToMatrixCell,
+  MATRIX_NO_LED,
+  type MatrixCell,
+  matrixCellToLedIndex,
+  zoneStartIndex,
+} from './matrix.js';
+export {
+  findDirectModeIndex,
+  findStaticModeIndex,
+  getModeCapabilities,
+  type ModeCapabilities,
+} from './modes.js';
+export { type LedUpdate, NetworkClient, type NetworkClientEvents } from './network.js';
+export { BinaryParser, BinaryWriter } from './parser.js';
+export {
+  Cancellation,
+  type Platform,
+  type Sha256,
+  type Timers,
+  type Transport,
+  type TransportConnection,
+} from './transport.js';
 // Types and interfaces
-export type { DeviceLED, DeviceMode, DeviceZone, RGBColor } from './types.js';
+export type {
+  DeviceLED,
+  DeviceMode,
+  DeviceSegment,
+  DeviceZone,
+  OpenRGBPacket,
+  RGBColor,
+} from './types.js';
 // Utilities
 export { createRGBColor, isValidRGBColor, validateRGBColor } from './types.js';
@@ -0,0 +1,92 @@
+import { OpenRGBError } from './errors.js';
+import type { DeviceZone } from './types.js';
+
+/**
+ * Matrix zone helpers. A zone's matrix map holds zone-local LED indices; the
+ * device-wide LED index adds the LED counts of all zones before it, which is
+ * the order the SDK lists LEDs and colors in.
+ */
+
+/** Matrix map value for a cell without an LED */
+export const MATRIX_NO_LED = 0xffffffff;
+
+export interface MatrixCell {
+  zoneIndex: number;
+  row: number;
+  column: number;
+}
+
+/**
+ * Device-wide index of a zone's first LED
+ */
+export function zoneStartIndex(zones: DeviceZone[], zoneIndex: number): number {
+  getZone(zones, zoneIndex);
+  return zones.slice(0, zoneIndex).reduce((start, zone) => start + zone.ledsCount, 0);
+}
+
+/**
+ * Device-wide LED index at a matrix cell, or null for an empty cell
+ */
+export function matrixCellToLedIndex(
+  zones: DeviceZone[],
+  zoneIndex: number,
+  row: number,
+  column: number,
+): number | null {
+  const map = getMatrixMap(zones, zoneIndex);
+  const value = map[row]?.[column];
+  if (value === undefined) {
+    throw new OpenRGBError(
+      `Cell (${row}, ${column}) is outside the ${map.length}x${map[0]?.length ?? 0} matrix of zone ${zoneIndex}`,
+      'INVALID_MATRIX_CELL',
+    );
+  }
+  if (value === MATRIX_NO_LED) {
+    return null;
+  }
+  return zoneStartIndex(zones, zoneIndex) + value;
+}
+
+/**
+ * Matrix cell holding a device-wide LED index, or null when the LED's zone has
+ * no matrix map or the map does not place it
+ */
+export function ledIndexToMatrixCell(zones: DeviceZone[], ledIndex: number): MatrixCell | null {
+  let start = 0;
+  for (let zoneIndex = 0; zoneIndex < zones.length; zoneIndex++) {
+    const zone = zones[zoneIndex]!;
+    if (ledIndex < start + zone.ledsCount) {
+      const local = ledIndex - start;
+      const map = zone.matrixMap ?? [];
+      for (let row = 0; row < map.length; row++) {
+        const column = map[row]!.indexOf(local);
+        if (column > -1) {
+          return { zoneIndex, row, column };
+        }
+      }
+      return null;
+    }
+    start += zone.ledsCount;
+  }
+
+  throw new OpenRGBError(
+    `LED ${ledIndex} is outside the device's ${start} LEDs`,
+    'INVALID_LED_INDEX',
+  );
+}
+
+function getZone(zones: DeviceZone[], zoneIndex: number): DeviceZone {
+  const zone = zones[zoneIndex];
+  if (!zone) {
+    throw new OpenRGBError(`Zone ${zoneIndex} does not exist`, 'INVALID_ZONE');
+  }
+  return zone;
+}
+
+function getMatrixMap(zones: DeviceZone[], zoneIndex: number): number[][] {
+  const zone = getZone(zones, zoneIndex);
+  if (!zone.matrixMap) {
+    throw new OpenRGBError(`Zone ${zoneIndex} (${zone.name}) is not a matrix`, 'NOT_A_MATRIX');
+  }
+  return zone.matrixMap;
+}
@@ -0,0 +1,89 @@
+import { ModeFlag } from './enums.js';
+import type { DeviceMode } from './types.js';
+
+/**
+ * Mode capability decoding. Mode names are localized or vendor-specific on some
+ * controllers, so modes are picked by what their flags say they can do.
+ */
+
+export interface ModeCapabilities {
+  hasSpeed: boolean;
+  /** Any of the left/right, up/down or horizontal/vertical directions */
+  hasDirection: boolean;
+  hasBrightness: boolean;
+  hasPerLedColor: boolean;
+  hasModeSpecificColor: boolean;
+  hasRandomColor: boolean;
+  /** Can be stored in onboard memory with SAVEMODE */
+  manualSave: boolean;
+  /** The controller stores the mode on its own */
+  automaticSave: boolean;
+}
+
+export function getModeCapabilities(mode: Pick<DeviceMode, 'flags'>): ModeCapabilities {
+  const flags = mode.flags ?? 0;
+  const has = (flag: ModeFlag) => (flags & flag) !== 0;
+
+  return {
+    hasSpeed: has(ModeFlag.HAS_SPEED),
+    hasDirection:
+      has(ModeFlag.HAS_DIRECTION_LR) ||
+      has(ModeFlag.HAS_DIRECTION_UD) ||
+      has(ModeFlag.HAS_DIRECTION_HV),
+    hasBrightness: has(ModeFlag.HAS_BRIGHTNESS),
+    hasPerLedColor: has(ModeFlag.HAS_PER_LED_COLOR),
+    hasModeSpecificColor: has(ModeFlag.HAS_MODE_SPECIFIC_COLOR),
+    hasRandomColor: has(ModeFlag.HAS_RANDOM_COLOR),
+    manualSave: has(ModeFlag.MANUAL_SAVE),
+    automaticSave: has(ModeFlag.AUTOMATIC_SAVE),
+  };
+}
+
+/**
+ * Index of the mode that takes live per-LED colors: per-LED color without any
+ * animation, preferring one that is not stored in onboard memory. Falls back
+ * to any per-LED mode, then to mode 0. Among equally capable modes, one named
+ * "Direct" wins over the first listed.
+ */
+export function findDirectModeIndex(modes: DeviceMode[]): number {
+  const capabilities = modes.map(getModeCapabilities);
+  const isStill = (c: ModeCapabilities) => !c.hasSpeed && !c.hasDirection;
+  const isNamedDirect = (index: number) => modes[index]?.name.trim().toLowerCase() === 'direct';
+
+  const candidates = [
+    (c: ModeCapabilities) => c.hasPerLedColor && isStill(c) && !c.manualSave && !c.automaticSave,
+    (c: ModeCapabilities) => c.hasPerLedColor && isStill(c),
+    (c: ModeCapabilities) => c.hasPerLedColor,
+  ];
+  for (const matches of candidates) {
+    const indices = capabilities.flatMap((c, index) => (matches(c) ? [index] : []));
+    const index = indices.find(isNamedDirect) ?? indices[0];
+    if (index !== undefined) {
+      return index;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Index of a still, single-color mode that can be saved to onboard memory,
+ * or null when the device has none. Mode-specific colors are preferred over
+ * per-LED ones, and the direct mode is never picked.
+ */
+export function findStaticModeIndex(modes: DeviceMode[], directModeIndex: number): number | null {
+  const capabilities = modes.map(getModeCapabilities);
+  const isSaveableStill = (c: ModeCapabilities, index: number) =>
+    index !== directModeIndex && c.manualSave && !c.hasSpeed && !c.hasDirection;
+
+  const candidates = [
+    (c: ModeCapabilities, index: number) => isSaveableStill(c, index) && c.hasModeSpecificColor,
+    (c: ModeCapabilities, index: number) => isSaveableStill(c, index) && c.hasPerLedColor,
+  ];
+  for (const matches of candidates) {
+    const index = capabilities.findIndex(matches);
+    if (index > -1) {
+      return index;
+    }
+  }
+  return null;
+}
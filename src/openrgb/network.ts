@@ -1,318 +1,760 @@
-import Gio from 'gi://Gio';
-import GLib from 'gi://GLib';
-import { DeviceData } from './device.js';
+import { parseServerAddress } from './address.js';
+import {
+  decodeReply,
+  encodeFrame,
+  encodeRequest,
+  readPacketHeader,
+  writePacketHeader,
+} from './codecs.js';
+import { PROTOCOL } from './constants.js';
+import type { DeviceData } from './device.js';
 import { PacketType } from './enums.js';
-import { OpenRGBConnectionError } from './errors.js';
-import { type RGBColor, validateRGBColor } from './types.js';
+import { OpenRGBConnectionError, OpenRGBProtocolError, OpenRGBTimeoutError } from './errors.js';
+import { EventEmitter } from './events.js';
+import { Cancellation, type Platform, type TransportConnection } from './transport.js';
+import { type DeviceMode, type OpenRGBPacket, type RGBColor, validateRGBColor } from './types.js';
+
+interface PendingRequest {
+  deviceId: number;
+  packetType: PacketType;
+  resolve: (data: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+  timeoutId: number | null;
+}
+
+/** One device's share of a batched UPDATELEDS write */
+export interface LedUpdate {
+  deviceId: number;
+  color: RGBColor;
+  ledCount: number;
+}
 
-export class NetworkClient {
+export interface NetworkClientEvents {
+  /** A frame arrived that no pending request was waiting for */
+  notification: [packet: OpenRGBPacket];
+  /** The server's controller list changed (hotplug, rescan) */
+  deviceListUpdated: [];
+  /** The connection died on its own (EOF, read/write failure, missed heartbeat) */
+  disconnected: [error: Error];
+}
+
+export class NetworkClient extends EventEmitter<NetworkClientEvents> {
+  private platform: Platform;
   private address: string;
   private port: number;
   private name: string;
-  private connection: Gio.SocketConnection | null;
+  private connection: TransportConnection | null;
+  private pendingConnect: Cancellation | null;
+  private connectedAddress: string | null;
   private connected: boolean;
+  private protocolVersion: number;
   private timeouts: Set<number>;
+  private defaultTimeout: number;
+  private heartbeatInterval: number;
+  private heartbeatTimeoutId: number | null;
+  private pendingRequests: PendingRequest[];
+  private pendingPauses: Set<(error: Error) => void>;
+  private readBuffer: Uint8Array;
+  private ledFrames: Map<number, Uint8Array>;
+  private batchBuffer: Uint8Array;
 
   constructor(
+    platform: Platform,
     address: string = '127.0.0.1',
     port: number = 6742,
     name: string = 'GNOME-OpenRGB-AccentSync',
   ) {
+    super();
+    this.platform = platform;
     this.address = address;
     this.port = port;
     this.name = name;
     this.connection = null;
+    this.pendingConnect = null;
+    this.connectedAddress = null;
     this.connected = false;
+    this.protocolVersion = 0;
     this.timeouts = new Set<number>();
+    this.defaultTimeout = PROTOCOL.DEFAULT_TIMEOUT;
+    this.heartbeatInterval = PROTOCOL.HEARTBEAT_INTERVAL;
+    this.heartbeatTimeoutId = null;
+    this.pendingRequests = [];
+    this.pendingPauses = new Set();
+    this.readBuffer = new Uint8Array(0);
+    this.ledFrames = new Map<number, Uint8Array>();
+    this.batchBuffer = new Uint8Array(0);
   }
 
-  async connect(): Promise<void> {
+  /**
+   * Deadline applied to operations that are not given their own timeout
+   */
+  setDefaultTimeout(timeoutMs: number): void {
+    this.defaultTimeout = timeoutMs;
+  }
+
+  async connect(timeoutMs: number = this.defaultTimeout): Promise<void> {
     this.disconnect();
 
-    return new Promise<void>((resolve, reject) => {
-      const address = Gio.InetSocketAddress.new_from_string(this.address, this.port);
-      if (!address) {
-        reject(new Error(`Invalid address: ${this.address}:${this.port}`));
-        return;
+    // disconnect() cancels this attempt; a connection that arrives anyway is closed
+    const attempt = new Cancellation();
+    this.pendingConnect = attempt;
+
+    const server = parseServerAddress(this.address, this.port);
+    try {
+      const connection = await this.withDeadline(
+        `Connecting to ${this.address}:${this.port}`,
+        timeoutMs,
+        (cancellation) => {
+          attempt.onCancel(() => cancellation.cancel());
+          return this.platform.transport.connect(server.host, server.port, cancellation);
+        },
+      ).catch((error: Error) => {
+        throw attempt.isCancelled() ? new OpenRGBConnectionError('Connection closed') : error;
+      });
+      if (attempt.isCancelled()) {
+        connection.close();
+        throw new OpenRGBConnectionError('Connection closed');
       }
+      this.pendingConnect = null;
+      this.connection = connection;
+      this.connectedAddress = connection.address;
+      this.connected = true;
+      console.log(`OpenRGB: Connected to ${connection.address}`);
+    } catch (error) {
+      console.error('OpenRGB: Connection failed:', (error as Error).message);
+      throw error;
+    }
 
-      const socket = new Gio.SocketClient();
-      socket.connect_async(address, null, (source, result) => {
-        try {
-          this.connection = source?.connect_finish(result) || null;
-          this.connected = true;
-          console.log(`OpenRGB: Connected to ${this.address}:${this.port}`);
-          resolve();
-        } catch (error) {
-          console.error('OpenRGB: Connection failed:', (error as Error).message);
-          reject(error);
-        }
-      });
-    });
+    this.startReader();
+    await this.negotiateProtocolVersion();
+    this.scheduleHeartbeat();
+  }
+
+  /**
+   * Interval between liveness checks; 0 disables them
+   */
+  setHeartbeatInterval(intervalMs: number): void {
+    this.heartbeatInterval = intervalMs;
+    if (this.connected) {
+      this.scheduleHeartbeat();
+    }
+  }
+
+  /**
+   * Writes to a half-open socket keep succeeding, so an idle connection is
+   * probed with a cheap controller count request. A missed reply counts as dead.
+   */
+  private scheduleHeartbeat(): void {
+    if (this.heartbeatTimeoutId !== null) {
+      this.removeTimeout(this.heartbeatTimeoutId);
+      this.heartbeatTimeoutId = null;
+    }
+    if (this.heartbeatInterval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimeoutId = this.addTimeout(() => {
+      this.heartbeatTimeoutId = null;
+      this.getControllerCount(PROTOCOL.HEARTBEAT_TIMEOUT).then(
+        () => {
+          if (this.connected) {
+            this.scheduleHeartbeat();
+          }
+        },
+        (error: Error) => {
+          if (this.connected) {
+            this.handleStreamFailure(error);
+          }
+        },
+      );
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * Resolved address of the current connection (host:port, IPv6 bracketed)
+   */
+  getConnectedAddress(): string | null {
+    return this.connectedAddress;
+  }
+
+  /**
+   * Protocol version agreed with the server; decides the layout of controller data.
+   */
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  async negotiateProtocolVersion(): Promise<number> {
+    const versionData = encodeRequest(PacketType.REQUEST_PROTOCOL_VERSION, PROTOCOL.MAX_VERSION);
+
+    // Unversioned (protocol 0) servers silently drop this request, so a missing
+    // reply within the negotiation window means version 0.
+    let serverVersion = 0;
+    try {
+      const reply = await this.request(
+        0,
+        PacketType.REQUEST_PROTOCOL_VERSION,
+        versionData,
+        PROTOCOL.VERSION_NEGOTIATION_TIMEOUT,
+      );
+      serverVersion = decodeReply(PacketType.REQUEST_PROTOCOL_VERSION, reply);
+    } catch (error) {
+      if (!this.connected) {
+        throw error;
+      }
+      console.log('OpenRGB: No protocol version reply, assuming unversioned server');
+    }
+
+    this.protocolVersion = Math.min(serverVersion, PROTOCOL.MAX_VERSION);
+    console.log(
+      `OpenRGB: Server protocol ${serverVersion}, using protocol ${this.protocolVersion}`,
+    );
+    return this.protocolVersion;
   }
 
   disconnect(): void {
+    this.pendingConnect?.cancel();
+    this.pendingConnect = null;
     this.clearAllTimeouts();
+    this.heartbeatTimeoutId = null;
+    this.readBuffer = new Uint8Array(0);
+    this.rejectPendingRequests(new OpenRGBConnectionError('Connection closed'));
+    this.rejectPendingPauses(new OpenRGBConnectionError('Connection closed'));
 
     if (this.connection) {
       try {
-        this.connection.close(null);
+        this.connection.close();
         console.log('OpenRGB: Connection closed');
       } catch (error) {
         console.warn('OpenRGB: Error closing connection:', (error as Error).message);
       }
       this.connection = null;
     }
+    this.connectedAddress = null;
     this.connected = false;
+    this.protocolVersion = 0;
+    this.ledFrames.clear();
   }
 
-  addTimeout(callback: () => boolean, delay: number): number {
-    const timeoutId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, delay, () => {
+  /**
+   * One-shot timer on the platform's timers, cleared by disconnect()
+   */
+  addTimeout(callback: () => void, delay: number): number {
+    const timeoutId = this.platform.timers.setTimeout(() => {
       this.timeouts.delete(timeoutId);
-      return callback();
-    });
+      callback();
+    }, delay);
     this.timeouts.add(timeoutId);
     return timeoutId;
   }
 
+  removeTimeout(timeoutId: number): void {
+    if (this.timeouts.delete(timeoutId)) {
+      this.platform.timers.clearTimeout(timeoutId);
+    }
+  }
+
   clearAllTimeouts(): void {
     for (const timeoutId of this.timeouts) {
-      GLib.source_remove(timeoutId);
+      this.platform.timers.clearTimeout(timeoutId);
     }
     this.timeouts.clear();
   }
 
   createHeader(deviceId: number, packetType: PacketType, dataSize: number): ArrayBuffer {
-    const header = new ArrayBuffer(16);
-    const view = new DataView(header);
+    const header = new ArrayBuffer(PROTOCOL.HEADER_SIZE);
+    writePacketHeader(new Uint8Array(header), { deviceId, packetType, dataSize });
+    return header;
+  }
 
-    view.setUint8(0, 0x4f); // 'O'
-    view.setUint8(1, 0x52); // 'R'
-    view.setUint8(2, 0x47); // 'G'
-    view.setUint8(3, 0x42); // 'B'
+  async sendPacket(
+    deviceId: number,
+    packetType: PacketType,
+    data?: ArrayBuffer,
+    timeoutMs: number = this.defaultTimeout,
+  ): Promise<void> {
+    const frame = encodeFrame(deviceId, packetType, data);
+    await this.writeFrames(frame, `Sending packet ${packetType}`, timeoutMs);
+  }
+
+  /**
+   * Write one or more complete frames with a single transport write. The
+   * transport copies the data and keeps writes in order, so callers may patch
+   * the frames right after and need not wait for each other.
+   */
+  private async writeFrames(
+    frames: Uint8Array,
+    operation: string,
+    timeoutMs: number = this.defaultTimeout,
+  ): Promise<void> {
+    if (!this.connected || !this.connection) {
+      throw new OpenRGBConnectionError('Not connected to OpenRGB server');
+    }
 
-    view.setUint32(4, deviceId, true);
-    view.setUint32(8, packetType, true);
-    view.setUint32(12, dataSize, true);
+    const connection = this.connection;
+    try {
+      await this.withDeadline(operation, timeoutMs, (cancellation) =>
+        connection.write(frames, cancellation),
+      );
+    } catch (error) {
+      if (error instanceof OpenRGBTimeoutError) {
+        // A frame cut short by cancellation leaves the stream unusable
+        this.handleStreamFailure(error);
+      }
+      throw error;
+    }
+  }
 
-    return header;
+  /**
+   * Run an I/O operation with a Cancellation that is cancelled when the
+   * deadline passes, rejecting with OpenRGBTimeoutError instead of hanging.
+   */
+  private withDeadline<T>(
+    operation: string,
+    timeoutMs: number,
+    run: (cancellation: Cancellation) => Promise<T>,
+  ): Promise<T> {
+    const cancellation = new Cancellation();
+
+    return new Promise<T>((resolve, reject) => {
+      const timeoutId = this.addTimeout(() => {
+        cancellation.cancel();
+        reject(new OpenRGBTimeoutError(`${operation} timed out after ${timeoutMs}ms`, timeoutMs));
+      }, timeoutMs);
+
+      run(cancellation).then(
+        (value) => {
+          this.removeTimeout(timeoutId);
+          resolve(value);
+        },
+        (error) => {
+          this.removeTimeout(timeoutId);
+          reject(error);
+        },
+      );
+    });
   }
 
-  async sendPacket(deviceId: number, packetType: PacketType, data?: ArrayBuffer): Promise<void> {
+  /**
+   * Send a packet and wait for the reply with the same packet type and device index.
+   * The reply is registered before sending so an immediate answer cannot be missed.
+   */
+  async request(
+    deviceId: number,
+    packetType: PacketType,
+    data?: ArrayBuffer,
+    timeoutMs: number = this.defaultTimeout,
+  ): Promise<ArrayBuffer> {
     if (!this.connected) {
-      throw new Error('Not connected to OpenRGB server');
+      throw new OpenRGBConnectionError('Not connected to OpenRGB server');
+    }
+
+    let pending!: PendingRequest;
+    const reply = new Promise<ArrayBuffer>((resolve, reject) => {
+      pending = { deviceId, packetType, resolve, reject, timeoutId: null };
+
+      pending.timeoutId = this.addTimeout(() => {
+        pending.timeoutId = null;
+        this.removePendingRequest(pending);
+        reject(
+          new OpenRGBTimeoutError(
+            `Timeout waiting for reply to packet ${packetType} (device ${deviceId})`,
+            timeoutMs,
+          ),
+        );
+      }, timeoutMs);
+
+      this.pendingRequests.push(pending);
+    });
+    // The caller awaits `reply` below; this only keeps an early rejection from being reported unhandled
+    reply.catch(() => {});
+
+    try {
+      await this.sendPacket(deviceId, packetType, data, timeoutMs);
+    } catch (error) {
+      this.settlePendingRequest(pending);
+      pending.reject(error as Error);
+    }
+
+    return reply;
+  }
+
+  private removePendingRequest(pending: PendingRequest): void {
+    const index = this.pendingRequests.indexOf(pending);
+    if (index > -1) {
+      this.pendingRequests.splice(index, 1);
     }
+  }
 
-    const dataSize = data ? data.byteLength : 0;
-    const header = this.createHeader(deviceId, packetType, dataSize);
+  private settlePendingRequest(pending: PendingRequest): void {
+    this.removePendingRequest(pending);
+    if (pending.timeoutId !== null) {
+      this.removeTimeout(pending.timeoutId);
+      pending.timeoutId = null;
+    }
+  }
+
+  private rejectPendingRequests(error: Error): void {
+    const pendingRequests = [...this.pendingRequests];
+    pendingRequests.forEach((pending) => {
+      this.settlePendingRequest(pending);
+      pending.reject(error);
+    });
+  }
 
+  /**
+   * Wait on the connection's timers; disconnect() clears those, so it rejects
+   * the pause instead of leaving it pending forever.
+   */
+  private pause(delayMs: number): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      const outputStream = this.connection!.get_output_stream();
-      const headerBytes = GLib.Bytes.new(new Uint8Array(header));
+      const timeoutId = this.addTimeout(() => {
+        this.pendingPauses.delete(cancel);
+        resolve();
+      }, delayMs);
+      const cancel = (error: Error) => {
+        this.removeTimeout(timeoutId);
+        reject(error);
+      };
+      this.pendingPauses.add(cancel);
+    });
+  }
 
-      outputStream.write_bytes_async(headerBytes, GLib.PRIORITY_DEFAULT, null, (source, result) => {
+  private rejectPendingPauses(error: Error): void {
+    const pendingPauses = [...this.pendingPauses];
+    this.pendingPauses.clear();
+    pendingPauses.forEach((cancel) => cancel(error));
+  }
+
+  private startReader(): void {
+    this.readBuffer = new Uint8Array(0);
+    this.connection?.startReading(
+      (chunk) => {
+        this.appendToReadBuffer(chunk);
         try {
-          source?.write_bytes_finish(result);
-
-          if (data) {
-            const dataBytes = GLib.Bytes.new(new Uint8Array(data));
-            outputStream.write_bytes_async(
-              dataBytes,
-              GLib.PRIORITY_DEFAULT,
-              null,
-              (source2, result2) => {
-                try {
-                  source2?.write_bytes_finish(result2);
-                  resolve();
-                } catch (error) {
-                  reject(error);
-                }
-              },
-            );
-          } else {
-            resolve();
-          }
+          this.processFrames();
         } catch (error) {
-          reject(error);
+          this.handleStreamFailure(error as Error);
         }
-      });
-    });
+      },
+      (error) => {
+        const message = error ? `Read failed: ${error.message}` : 'Connection closed by server';
+        this.handleStreamFailure(new OpenRGBConnectionError(message, this.address, this.port));
+      },
+    );
+  }
+
+  private appendToReadBuffer(chunk: Uint8Array): void {
+    const combined = new Uint8Array(this.readBuffer.length + chunk.length);
+    combined.set(this.readBuffer);
+    combined.set(chunk, this.readBuffer.length);
+    this.readBuffer = combined;
+  }
+
+  /**
+   * Split the read buffer into complete header-plus-payload frames and dispatch them.
+   * A partial frame stays buffered until the rest of it arrives.
+   */
+  private processFrames(): void {
+    while (this.readBuffer.length >= PROTOCOL.HEADER_SIZE) {
+      const { deviceId, packetType, dataSize } = readPacketHeader(this.readBuffer);
+
+      const frameSize = PROTOCOL.HEADER_SIZE + dataSize;
+      if (this.readBuffer.length < frameSize) {
+        return;
+      }
+
+      const payload = this.readBuffer.slice(PROTOCOL.HEADER_SIZE, frameSize);
+      this.readBuffer = this.readBuffer.slice(frameSize);
+
+      this.dispatchPacket({ deviceId, packetType, data: payload.buffer });
+    }
   }
 
-  async registerClient(): Promise<void> {
-    const nameBuffer = new TextEncoder().encode(this.name);
-    const clientData = new ArrayBuffer(2 + nameBuffer.length);
-    const view = new DataView(clientData);
+  private dispatchPacket(packet: OpenRGBPacket): void {
+    const pending = this.pendingRequests.find(
+      (request) => request.packetType === packet.packetType && request.deviceId === packet.deviceId,
+    );
 
-    view.setUint16(0, nameBuffer.length, true);
-    const nameArray = new Uint8Array(clientData, 2);
-    nameArray.set(nameBuffer);
+    if (pending) {
+      this.settlePendingRequest(pending);
+      pending.resolve(packet.data);
+      return;
+    }
+
+    if (packet.packetType === PacketType.DEVICE_LIST_UPDATED) {
+      console.log('OpenRGB: Server reported a device list update');
+      this.emit('deviceListUpdated');
+      return;
+    }
 
-    await this.sendPacket(0, PacketType.SET_CLIENT_NAME, clientData);
+    console.log(
+      `OpenRGB: Unsolicited packet ${packet.packetType} for device ${packet.deviceId} (${packet.data.byteLength} bytes)`,
+    );
+    this.emit('notification', packet);
+  }
+
+  private handleStreamFailure(error: Error): void {
+    if (!this.connected) {
+      return;
+    }
+    console.warn('OpenRGB: Connection lost:', error.message);
+    this.rejectPendingRequests(error);
+    this.disconnect();
+    this.emit('disconnected', error);
+  }
+
+  async registerClient(timeoutMs?: number): Promise<void> {
+    const clientData = encodeRequest(PacketType.SET_CLIENT_NAME, this.name);
+    await this.sendPacket(0, PacketType.SET_CLIENT_NAME, clientData, timeoutMs);
     console.log(`OpenRGB: Registered client "${this.name}"`);
   }
 
-  async getControllerCount(): Promise<number> {
-    await this.sendPacket(0, PacketType.REQUEST_CONTROLLER_COUNT);
+  async getControllerCount(timeoutMs?: number): Promise<number> {
+    const data = await this.request(0, PacketType.REQUEST_CONTROLLER_COUNT, undefined, timeoutMs);
+    return decodeReply(PacketType.REQUEST_CONTROLLER_COUNT, data);
+  }
 
-    return new Promise<number>((resolve, reject) => {
-      const inputStream = this.connection!.get_input_stream();
+  async getControllerData(deviceId: number, timeoutMs?: number): Promise<DeviceData> {
+    // Versioned servers expect the client's protocol version with the request
+    // and answer with the matching controller layout.
+    const data = await this.request(
+      deviceId,
+      PacketType.REQUEST_CONTROLLER_DATA,
+      encodeRequest(PacketType.REQUEST_CONTROLLER_DATA, this.protocolVersion),
+      timeoutMs,
+    );
+    console.log(`OpenRGB: Device ${deviceId} - processing ${data.byteLength} bytes`);
 
-      inputStream.read_bytes_async(20, GLib.PRIORITY_DEFAULT, null, (source, result) => {
-        try {
-          const readBytes = source?.read_bytes_finish(result);
-          const data = readBytes?.get_data();
-
-          if (data && data.length >= 20) {
-            const count = data[16]! | (data[17]! << 8) | (data[18]! << 16) | (data[19]! << 24);
-            resolve(count);
-          } else {
-            reject(new Error('Invalid response'));
-          }
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
+    try {
+      return decodeReply(PacketType.REQUEST_CONTROLLER_DATA, data, this.protocolVersion);
+    } catch (parseError) {
+      console.error(`OpenRGB: Failed to parse device ${deviceId}:`, parseError);
+      throw parseError;
+    }
   }
 
-  async getControllerData(deviceId: number): Promise<DeviceData> {
-    await this.sendPacket(deviceId, PacketType.REQUEST_CONTROLLER_DATA);
+  async updateLeds(deviceId: number, colors: RGBColor[], timeoutMs?: number): Promise<void>;
+  async updateLeds(
+    deviceId: number,
+    color: RGBColor,
+    ledCount: number,
+    timeoutMs?: number,
+  ): Promise<void>;
+  async updateLeds(
+    deviceId: number,
+    colorOrColors: RGBColor | RGBColor[],
+    ledCountOrTimeout?: number,
+    timeoutMs?: number,
+  ): Promise<void> {
+    const operation = `Sending packet ${PacketType.RGBCONTROLLER_UPDATELEDS}`;
+
+    if (Array.isArray(colorOrColors)) {
+      const frame = this.patchLedFrame(deviceId, colorOrColors.length, (colors) =>
+        colorOrColors.forEach((color, i) => {
+          const { r, g, b } = validateRGBColor(color);
+          colors.set([r, g, b, 0], i * 4);
+        }),
+      );
+      await this.writeFrames(frame, operation, ledCountOrTimeout);
+      return;
+    }
 
-    return new Promise<DeviceData>((resolve, reject) => {
-      const inputStream = this.connection!.get_input_stream();
-      let totalBuffer = new Uint8Array(0);
-      let headerReceived = false;
-      let expectedDataSize = 0;
-      let timeoutId: number | null = null;
+    const frame = this.fillLedFrame(deviceId, colorOrColors, ledCountOrTimeout ?? 0);
+    await this.writeFrames(frame, operation, timeoutMs);
+  }
 
-      const dataHandler = (_source: any, result: any) => {
-        try {
-          if (timeoutId !== null) {
-            GLib.source_remove(timeoutId);
-            this.timeouts.delete(timeoutId);
-            timeoutId = null;
-          }
+  /**
+   * Paint several devices with one write, e.g. one step of a color transition
+   */
+  async updateLedsBatch(updates: LedUpdate[], timeoutMs?: number): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
 
-          const data = inputStream.read_bytes_finish(result);
-          if (data && data.get_size() > 0) {
-            const dataArray = data.get_data();
-            if (dataArray) {
-              const buffer = new Uint8Array(dataArray);
-
-              const newBuffer = new Uint8Array(totalBuffer.length + buffer.length);
-              newBuffer.set(totalBuffer);
-              newBuffer.set(buffer, totalBuffer.length);
-              totalBuffer = newBuffer;
-
-              if (!headerReceived && totalBuffer.length >= 16) {
-                const view = new DataView(
-                  totalBuffer.buffer,
-                  totalBuffer.byteOffset,
-                  totalBuffer.byteLength,
-                );
-                expectedDataSize = view.getUint32(12, true);
-                headerReceived = true;
-                console.log(
-                  `OpenRGB: Device ${deviceId} - Expected data size: ${expectedDataSize}`,
-                );
-              }
-
-              if (headerReceived && totalBuffer.length >= 16 + expectedDataSize) {
-                console.log(`OpenRGB: Device ${deviceId} - processing ${expectedDataSize} bytes`);
-
-                const deviceBuffer = totalBuffer.slice(16, 16 + expectedDataSize);
-
-                const arrayBuffer = deviceBuffer.buffer.slice(
-                  deviceBuffer.byteOffset,
-                  deviceBuffer.byteOffset + deviceBuffer.byteLength,
-                );
-
-                try {
-                  const deviceData = DeviceData.parse(arrayBuffer);
-                  if (timeoutId !== null) {
-                    GLib.source_remove(timeoutId);
-                    this.timeouts.delete(timeoutId);
-                  }
-                  resolve(deviceData);
-                } catch (parseError) {
-                  console.error(`OpenRGB: Failed to parse device ${deviceId}:`, parseError);
-                  reject(parseError);
-                }
-                return;
-              }
-
-              if (totalBuffer.length < 16 + expectedDataSize) {
-                inputStream.read_bytes_async(4096, GLib.PRIORITY_DEFAULT, null, dataHandler);
-              }
-            }
-          } else {
-            console.warn(`OpenRGB: Device ${deviceId} - no data received`);
-            reject(new Error('No data received'));
-          }
-        } catch (error) {
-          if (timeoutId !== null) {
-            GLib.source_remove(timeoutId);
-            this.timeouts.delete(timeoutId);
-          }
-          reject(error);
-        }
-      };
+    const frames = updates.map(({ deviceId, color, ledCount }) =>
+      this.fillLedFrame(deviceId, color, ledCount),
+    );
+    const totalSize = frames.reduce((size, frame) => size + frame.length, 0);
+    if (this.batchBuffer.length < totalSize) {
+      this.batchBuffer = new Uint8Array(totalSize);
+    }
 
-      timeoutId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, 10000, () => {
-        if (timeoutId !== null) {
-          this.timeouts.delete(timeoutId);
-        }
-        reject(new Error('Timeout waiting for device data'));
-        return GLib.SOURCE_REMOVE;
-      });
-      if (timeoutId !== null) {
-        this.timeouts.add(timeoutId);
+    let offset = 0;
+    for (const frame of frames) {
+      this.batchBuffer.set(frame, offset);
+      offset += frame.length;
+    }
+
+    await this.writeFrames(
+      this.batchBuffer.subarray(0, totalSize),
+      `Sending LED updates for ${updates.length} devices`,
+      timeoutMs,
+    );
+  }
+
+  /**
+   * Patch the device's cached UPDATELEDS frame with a single color
+   */
+  private fillLedFrame(deviceId: number, color: RGBColor, ledCount: number): Uint8Array {
+    const { r, g, b } = validateRGBColor(color);
+    return this.patchLedFrame(deviceId, ledCount, (colors) => {
+      if (colors.length === 0) {
+        return;
+      }
+      colors.set([r, g, b, 0]);
+      // Double the painted prefix until the whole color block is filled
+      for (let filled = 4; filled < colors.length; filled *= 2) {
+        colors.copyWithin(filled, 0, Math.min(filled, colors.length - filled));
       }
+    });
+  }
+
+  /**
+   * Reuse the device's UPDATELEDS frame (header included) while its LED count
+   * is unchanged, handing the color block to paint to the caller.
+   */
+  private patchLedFrame(
+    deviceId: number,
+    ledCount: number,
+    paint: (colors: Uint8Array) => void,
+  ): Uint8Array {
+    const payloadSize = 6 + ledCount * PROTOCOL.COLOR_SIZE;
+    let frame = this.ledFrames.get(deviceId);
+
+    if (frame?.length !== PROTOCOL.HEADER_SIZE + payloadSize) {
+      frame = new Uint8Array(PROTOCOL.HEADER_SIZE + payloadSize);
+      writePacketHeader(frame, {
+        deviceId,
+        packetType: PacketType.RGBCONTROLLER_UPDATELEDS,
+        dataSize: payloadSize,
+      });
+      const view = new DataView(frame.buffer, PROTOCOL.HEADER_SIZE);
+      view.setUint32(0, payloadSize, true);
+      view.setUint16(4, ledCount, true);
+      this.ledFrames.set(deviceId, frame);
+    }
 
-      inputStream.read_bytes_async(4096, GLib.PRIORITY_DEFAULT, null, dataHandler);
+    paint(frame.subarray(PROTOCOL.HEADER_SIZE + 6));
+    return frame;
+  }
+
+  async updateZoneLeds(
+    deviceId: number,
+    zoneIndex: number,
+    colors: RGBColor[],
+    timeoutMs?: number,
+  ): Promise<void> {
+    const dataPayload = encodeRequest(PacketType.RGBCONTROLLER_UPDATEZONELEDS, {
+      zoneIndex,
+      colors,
     });
+    await this.sendPacket(
+      deviceId,
+      PacketType.RGBCONTROLLER_UPDATEZONELEDS,
+      dataPayload,
+      timeoutMs,
+    );
+  }
+
+  async getProfileList(timeoutMs?: number): Promise<string[]> {
+    this.requireProfileSupport(PacketType.REQUEST_PROFILE_LIST);
+
+    const data = await this.request(0, PacketType.REQUEST_PROFILE_LIST, undefined, timeoutMs);
+    return decodeReply(PacketType.REQUEST_PROFILE_LIST, data);
   }
 
-  async updateLeds(deviceId: number, color: RGBColor, ledCount: number): Promise<void> {
-    const validatedColor = validateRGBColor(color);
+  async saveProfile(name: string, timeoutMs?: number): Promise<void> {
+    this.requireProfileSupport(PacketType.REQUEST_SAVE_PROFILE);
+    await this.sendPacket(
+      0,
+      PacketType.REQUEST_SAVE_PROFILE,
+      encodeRequest(PacketType.REQUEST_SAVE_PROFILE, name),
+      timeoutMs,
+    );
+  }
 
-    const totalSize = 6 + ledCount * 4;
-    const dataPayload = new ArrayBuffer(totalSize);
-    const view = new DataView(dataPayload);
+  async loadProfile(name: string, timeoutMs?: number): Promise<void> {
+    this.requireProfileSupport(PacketType.REQUEST_LOAD_PROFILE);
+    await this.sendPacket(
+      0,
+      PacketType.REQUEST_LOAD_PROFILE,
+      encodeRequest(PacketType.REQUEST_LOAD_PROFILE, name),
+      timeoutMs,
+    );
+  }
 
-    view.setUint32(0, totalSize, true);
-    view.setUint16(4, ledCount, true);
+  async deleteProfile(name: string, timeoutMs?: number): Promise<void> {
+    this.requireProfileSupport(PacketType.REQUEST_DELETE_PROFILE);
+    await this.sendPacket(
+      0,
+      PacketType.REQUEST_DELETE_PROFILE,
+      encodeRequest(PacketType.REQUEST_DELETE_PROFILE, name),
+      timeoutMs,
+    );
+  }
 
-    for (let i = 0; i < ledCount; i++) {
-      const offset = 6 + i * 4;
-      view.setUint8(offset, validatedColor.r);
-      view.setUint8(offset + 1, validatedColor.g);
-      view.setUint8(offset + 2, validatedColor.b);
-      view.setUint8(offset + 3, 0);
+  private requireProfileSupport(packetType: PacketType): void {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Not connected to OpenRGB server');
+    }
+    if (this.protocolVersion < PROTOCOL.MIN_PROFILE_VERSION) {
+      throw new OpenRGBProtocolError(
+        `Profiles require protocol version ${PROTOCOL.MIN_PROFILE_VERSION}, server speaks ${this.protocolVersion}`,
+        packetType,
+      );
     }
-
-    await this.sendPacket(deviceId, PacketType.RGBCONTROLLER_UPDATELEDS, dataPayload);
   }
 
-  async setDeviceMode(deviceId: number, modeIndex: number): Promise<void> {
+  /**
+   * Apply a mode and ask the controller to store it in its onboard memory
+   */
+  async saveMode(
+    deviceId: number,
+    modeIndex: number,
+    mode: DeviceMode,
+    timeoutMs?: number,
+  ): Promise<void> {
     if (!this.connected) {
       throw new OpenRGBConnectionError('Not connected to OpenRGB server');
     }
 
-    console.log(`OpenRGB: Setting device ${deviceId} to mode ${modeIndex}`);
+    console.log(`OpenRGB: Saving mode ${modeIndex} (${mode.name}) to device ${deviceId}`);
 
-    const modeData = new ArrayBuffer(4);
-    const view = new DataView(modeData);
-    view.setUint32(0, modeIndex, true);
+    const modeData = encodeRequest(
+      PacketType.RGBCONTROLLER_SAVEMODE,
+      { modeIndex, mode },
+      this.protocolVersion,
+    );
+    await this.sendPacket(deviceId, PacketType.RGBCONTROLLER_SAVEMODE, modeData, timeoutMs);
+  }
+
+  /**
+   * Switch a device's active mode. UPDATEMODE has no reply; settleTimeMs pauses
+   * afterwards for controllers that need time before accepting LED updates.
+   */
+  async setDeviceMode(
+    deviceId: number,
+    modeIndex: number,
+    mode: DeviceMode,
+    settleTimeMs: number = 0,
+    timeoutMs?: number,
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new OpenRGBConnectionError('Not connected to OpenRGB server');
+    }
 
-    await this.sendPacket(deviceId, PacketType.RGBCONTROLLER_UPDATEMODE, modeData);
+    console.log(`OpenRGB: Setting device ${deviceId} to mode ${modeIndex} (${mode.name})`);
 
-    await new Promise<void>((resolve) =>
-      this.addTimeout(() => {
-        resolve();
-        return true;
-      }, 200),
+    const modeData = encodeRequest(
+      PacketType.RGBCONTROLLER_UPDATEMODE,
+      { modeIndex, mode },
+      this.protocolVersion,
     );
+    await this.sendPacket(deviceId, PacketType.RGBCONTROLLER_UPDATEMODE, modeData, timeoutMs);
+
+    if (settleTimeMs > 0) {
+      await this.pause(settleTimeMs);
+    }
   }
 }
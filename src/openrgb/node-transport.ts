@@ -0,0 +1,110 @@
+import { createHash } from 'node:crypto';
+import { connect, type Socket } from 'node:net';
+import { formatServerAddress } from './address.js';
+import { OpenRGBConnectionError } from './errors.js';
+import type {
+  Cancellation,
+  Platform,
+  Sha256,
+  Timers,
+  Transport,
+  TransportConnection,
+} from './transport.js';
+
+/**
+ * Transport, timers and hashing on Node's net and crypto modules, for tests
+ * and command-line tools. Not exported from index.ts, which targets GJS.
+ */
+
+class NodeConnection implements TransportConnection {
+  readonly address: string;
+  private socket: Socket;
+  private closed: boolean;
+
+  constructor(socket: Socket, address: string) {
+    this.address = address;
+    this.socket = socket;
+    this.closed = false;
+  }
+
+  startReading(onData: (chunk: Uint8Array) => void, onEnd: (error: Error | null) => void): void {
+    let ended = false;
+    const end = (error: Error | null) => {
+      if (!ended && !this.closed) {
+        ended = true;
+        onEnd(error);
+      }
+    };
+
+    this.socket.on('data', (chunk: Buffer) =>
+      onData(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)),
+    );
+    this.socket.on('end', () => end(null));
+    this.socket.on('error', (error) => end(error));
+    this.socket.on('close', () => end(null));
+  }
+
+  /**
+   * Buffer.from copies the data; the socket keeps writes in order by itself
+   */
+  write(data: Uint8Array, cancellation: Cancellation): Promise<void> {
+    const copy = Buffer.from(data);
+
+    return new Promise<void>((resolve, reject) => {
+      cancellation.onCancel(() => {
+        this.socket.destroy();
+        reject(new Error('Operation was cancelled'));
+      });
+      this.socket.write(copy, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.destroy();
+  }
+}
+
+export class NodeTransport implements Transport {
+  connect(host: string, port: number, cancellation: Cancellation): Promise<TransportConnection> {
+    return new Promise<TransportConnection>((resolve, reject) => {
+      const socket = connect({ host, port, noDelay: true });
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(
+          new OpenRGBConnectionError(
+            `Could not connect to ${formatServerAddress(host, port)} (${error.message})`,
+            host,
+            port,
+          ),
+        );
+      };
+      socket.once('error', fail);
+      cancellation.onCancel(() => fail(new Error('Operation was cancelled')));
+
+      socket.once('connect', () => {
+        socket.off('error', fail);
+        const address = formatServerAddress(
+          socket.remoteAddress ?? host,
+          socket.remotePort ?? port,
+        );
+        resolve(new NodeConnection(socket, address));
+      });
+    });
+  }
+}
+
+export const nodeTimers: Timers = {
+  // Node timeouts convert to a numeric id that clearTimeout accepts
+  setTimeout: (callback, delayMs) => Number(setTimeout(callback, delayMs)),
+  clearTimeout: (id) => clearTimeout(id),
+};
+
+export const nodeSha256: Sha256 = (text) => createHash('sha256').update(text).digest('hex');
+
+export const nodePlatform: Platform = {
+  transport: new NodeTransport(),
+  timers: nodeTimers,
+  sha256: nodeSha256,
+};
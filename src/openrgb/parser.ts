@@ -1,23 +1,30 @@
+import { VALIDATION } from './constants.js';
 import { OpenRGBParseError } from './errors.js';
 import type { RGBColor } from './types.js';
 
+/**
+ * Little-endian reader over a server payload. Every read is bounds-checked and
+ * fails with OpenRGBParseError (offset and buffer size attached) instead of
+ * returning garbage, and counts/strings are capped by the VALIDATION limits.
+ */
 export class BinaryParser {
   private data: ArrayBuffer;
   private offset: number;
 
   constructor(data: ArrayBuffer, offset: number = 0) {
+    if (offset < 0 || offset > data.byteLength) {
+      throw new OpenRGBParseError(
+        `Cannot start parsing at offset ${offset}, buffer size: ${data.byteLength}`,
+        offset,
+        data.byteLength,
+      );
+    }
     this.data = data;
     this.offset = offset;
   }
 
   readUint32(): number {
-    if (this.offset + 4 > this.data.byteLength) {
-      throw new OpenRGBParseError(
-        `Cannot read Uint32 at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
-        this.offset,
-        this.data.byteLength,
-      );
-    }
+    this.ensureAvailable(4, 'read Uint32');
     const view = new DataView(this.data);
     const value = view.getUint32(this.offset, true);
     this.offset += 4;
@@ -25,28 +32,40 @@ export class BinaryParser {
   }
 
   readUint16(): number {
-    if (this.offset + 2 > this.data.byteLength) {
-      throw new OpenRGBParseError(
-        `Cannot read Uint16 at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
-        this.offset,
-        this.data.byteLength,
-      );
-    }
+    this.ensureAvailable(2, 'read Uint16');
     const view = new DataView(this.data);
     const value = view.getUint16(this.offset, true);
     this.offset += 2;
     return value;
   }
 
+  /**
+   * Read a u16 element count, rejecting values above limit
+   */
+  readCount(limit: number, what: string): number {
+    const offset = this.offset;
+    const count = this.readUint16();
+    if (count > limit) {
+      throw new OpenRGBParseError(
+        `${what} count ${count} at offset ${offset} exceeds limit ${limit}, buffer size: ${this.data.byteLength}`,
+        offset,
+        this.data.byteLength,
+      );
+    }
+    return count;
+  }
+
   readString(): string {
+    const offset = this.offset;
     const length = this.readUint16();
-    if (this.offset + length > this.data.byteLength) {
+    if (length > VALIDATION.MAX_STRING_LENGTH) {
       throw new OpenRGBParseError(
-        `Cannot read string of length ${length} at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
-        this.offset,
+        `String length ${length} at offset ${offset} exceeds limit ${VALIDATION.MAX_STRING_LENGTH}, buffer size: ${this.data.byteLength}`,
+        offset,
         this.data.byteLength,
       );
     }
+    this.ensureAvailable(length, `read string of length ${length}`);
 
     const bytes = new Uint8Array(this.data, this.offset, length);
     const decoder = new TextDecoder('utf-8');
@@ -56,13 +75,7 @@ export class BinaryParser {
   }
 
   readRGBColor(): RGBColor {
-    if (this.offset + 4 > this.data.byteLength) {
-      throw new OpenRGBParseError(
-        `Cannot read RGBColor at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
-        this.offset,
-        this.data.byteLength,
-      );
-    }
+    this.ensureAvailable(4, 'read RGBColor');
 
     const view = new DataView(this.data);
     const color: RGBColor = {
@@ -76,13 +89,14 @@ export class BinaryParser {
   }
 
   skip(bytes: number): void {
-    if (this.offset + bytes > this.data.byteLength) {
+    if (bytes < 0) {
       throw new OpenRGBParseError(
         `Cannot skip ${bytes} bytes at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
         this.offset,
         this.data.byteLength,
       );
     }
+    this.ensureAvailable(bytes, `skip ${bytes} bytes`);
     this.offset += bytes;
   }
 
@@ -97,4 +111,88 @@ export class BinaryParser {
   getRemainingBytes(): number {
     return this.data.byteLength - this.offset;
   }
+
+  private ensureAvailable(bytes: number, operation: string): void {
+    if (this.offset + bytes > this.data.byteLength) {
+      throw new OpenRGBParseError(
+        `Cannot ${operation} at offset ${this.offset}, buffer size: ${this.data.byteLength}`,
+        this.offset,
+        this.data.byteLength,
+      );
+    }
+  }
+}
+
+/**
+ * Little-endian writer mirroring BinaryParser, used to build outgoing payloads
+ */
+export class BinaryWriter {
+  private bytes: Uint8Array;
+  private offset: number;
+
+  constructor(initialSize: number = 64) {
+    this.bytes = new Uint8Array(Math.max(initialSize, 8));
+    this.offset = 0;
+  }
+
+  private ensureCapacity(additional: number): void {
+    if (this.offset + additional <= this.bytes.length) {
+      return;
+    }
+    let size = this.bytes.length * 2;
+    while (size < this.offset + additional) {
+      size *= 2;
+    }
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.offset));
+    this.bytes = grown;
+  }
+
+  writeUint32(value: number): void {
+    this.ensureCapacity(4);
+    new DataView(this.bytes.buffer).setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+  }
+
+  writeUint16(value: number): void {
+    this.ensureCapacity(2);
+    new DataView(this.bytes.buffer).setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  /**
+   * Written verbatim with a u16 length prefix, the inverse of readString. Names
+   * parsed from the server keep their NUL terminator, so they round-trip as-is.
+   */
+  writeString(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.writeUint16(encoded.length);
+    this.ensureCapacity(encoded.length);
+    this.bytes.set(encoded, this.offset);
+    this.offset += encoded.length;
+  }
+
+  writeRGBColor(color: RGBColor): void {
+    this.ensureCapacity(4);
+    this.bytes[this.offset] = color.r;
+    this.bytes[this.offset + 1] = color.g;
+    this.bytes[this.offset + 2] = color.b;
+    this.bytes[this.offset + 3] = 0;
+    this.offset += 4;
+  }
+
+  /**
+   * Overwrite a previously written Uint32, e.g. a size field known only at the end
+   */
+  patchUint32(offset: number, value: number): void {
+    new DataView(this.bytes.buffer).setUint32(offset, value >>> 0, true);
+  }
+
+  getCurrentOffset(): number {
+    return this.offset;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.offset).buffer;
+  }
 }
@@ -0,0 +1,89 @@
+/**
+ * Platform seams of the SDK client. NetworkClient speaks the protocol over a
+ * Transport and schedules its deadlines with Timers, so the same code runs on
+ * Gio inside gnome-shell (gio-transport.ts) and on Node sockets in tests and
+ * command-line tools (node-transport.ts). Nothing here imports either runtime.
+ */
+
+/**
+ * Abandons a pending connect or write, e.g. when its deadline passes
+ */
+export class Cancellation {
+  private cancelled: boolean;
+  private handlers: Array<() => void>;
+
+  constructor() {
+    this.cancelled = false;
+    this.handlers = [];
+  }
+
+  cancel(): void {
+    if (this.cancelled) {
+      return;
+    }
+    this.cancelled = true;
+    const handlers = this.handlers;
+    this.handlers = [];
+    handlers.forEach((handler) => handler());
+  }
+
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Run handler on cancellation, right away if already cancelled
+   */
+  onCancel(handler: () => void): void {
+    if (this.cancelled) {
+      handler();
+    } else {
+      this.handlers.push(handler);
+    }
+  }
+}
+
+/**
+ * An open byte stream to the server
+ */
+export interface TransportConnection {
+  /** Address actually connected to, host:port with IPv6 literals bracketed */
+  readonly address: string;
+  /**
+   * Deliver incoming bytes until the stream ends. onEnd receives null when the
+   * server closed the stream and the error when reading failed; it is not
+   * called after close().
+   */
+  startReading(onData: (chunk: Uint8Array) => void, onEnd: (error: Error | null) => void): void;
+  /**
+   * Write every byte of data. The data is copied before this returns, so the
+   * caller may patch its buffer right away. Writes reach the stream in order.
+   */
+  write(data: Uint8Array, cancellation: Cancellation): Promise<void>;
+  /** Close the stream and stop reading */
+  close(): void;
+}
+
+export interface Transport {
+  /** Resolve host and connect to the first address that accepts */
+  connect(host: string, port: number, cancellation: Cancellation): Promise<TransportConnection>;
+}
+
+/**
+ * One-shot timers; ids are only passed back to clearTimeout
+ */
+export interface Timers {
+  setTimeout(callback: () => void, delayMs: number): number;
+  clearTimeout(id: number): void;
+}
+
+/** Hex SHA-256 digest of a string, used for stable device ids */
+export type Sha256 = (text: string) => string;
+
+export interface Platform {
+  transport: Transport;
+  timers: Timers;
+  sha256: Sha256;
+  /** Hash earlier releases derived stableIds with, where it differs from sha256 */
+  legacySha256?: Sha256;
+}
@@ -5,6 +5,8 @@
  * They are used across multiple modules for parsing binary data and representing device information.
  */
 
+import type { ZoneType } from './enums.js';
+
 /**
  * RGBA color representation used throughout the OpenRGB protocol
  */
@@ -27,18 +29,24 @@ export interface DeviceMode {
   name: string;
   /** Numeric identifier for the mode */
   value: number;
-  /** Mode capability flags */
+  /** Mode capability flags, a combination of ModeFlag bits (see getModeCapabilities) */
   flags: number;
   /** Minimum speed value for the mode */
   speedMin: number;
   /** Maximum speed value for the mode */
   speedMax: number;
+  /** Minimum brightness value for the mode (protocol 3+) */
+  brightnessMin?: number;
+  /** Maximum brightness value for the mode (protocol 3+) */
+  brightnessMax?: number;
   /** Minimum number of colors for the mode */
   colorsMin: number;
   /** Maximum number of colors for the mode */
   colorsMax: number;
   /** Current speed setting */
   speed: number;
+  /** Current brightness setting (protocol 3+) */
+  brightness?: number;
   /** Direction setting for animated modes */
   direction: number;
   /** Color mode configuration */
@@ -53,8 +61,8 @@ export interface DeviceMode {
 export interface DeviceZone {
   /** Human-readable name of the zone */
   name: string;
-  /** Zone type identifier */
-  type: number;
+  /** Zone layout */
+  type: ZoneType;
   /** Minimum number of LEDs in this zone */
   ledsMin: number;
   /** Maximum number of LEDs in this zone */
@@ -65,6 +73,29 @@ export interface DeviceZone {
   matrixHeight?: number;
   /** Matrix width for matrix-type zones */
   matrixWidth?: number;
+  /**
+   * Matrix map for matrix-type zones, indexed [row][column]. Cells hold
+   * zone-local LED indices or MATRIX_NO_LED (see matrix.ts).
+   */
+  matrixMap?: number[][];
+  /** Segments the zone is split into (protocol 4+) */
+  segments?: DeviceSegment[];
+  /** Zone flags (protocol 5+) */
+  flags?: number;
+}
+
+/**
+ * Represents a named range of LEDs within a zone
+ */
+export interface DeviceSegment {
+  /** Human-readable name of the segment */
+  name: string;
+  /** Segment type identifier */
+  type: number;
+  /** Index of the first LED of the segment within its zone */
+  startIndex: number;
+  /** Number of LEDs in the segment */
+  ledsCount: number;
 }
 
 /**
@@ -77,6 +108,18 @@ export interface DeviceLED {
   value: number;
 }
 
+/**
+ * A single framed packet received from the server
+ */
+export interface OpenRGBPacket {
+  /** Device index from the packet header */
+  deviceId: number;
+  /** Packet type from the packet header */
+  packetType: number;
+  /** Payload following the 16-byte header */
+  data: ArrayBuffer;
+}
+
 /**
  * Utility Functions for Type Safety
  */
@@ -6,6 +6,7 @@
  */
 
 import type Gio from 'gi://Gio';
+import { DeviceType } from '../openrgb/enums.js';
 import type { OpenRGBClient } from '../openrgb/index.js';
 import type { RGBColor } from '../openrgb/types.js';
 
@@ -37,7 +38,15 @@ export interface ExtensionSettings {
   'openrgb-port': number;
   'sync-enabled': boolean;
   'sync-delay': number;
+  'sync-disabled-profile'?: string;
+  'extension-disabled-profile'?: string;
+  'accent-profiles-enabled'?: boolean;
+  'accent-profiles'?: Partial<Record<AccentColorName, string>>;
   'ignored-devices': string[];
+  'ignored-device-types'?: (keyof typeof DeviceType)[];
+  'persist-color-devices'?: string[];
+  'persisted-colors'?: Record<string, string>;
+  'slow-mode-switch-devices'?: string[];
   'ignored-devices-migrated'?: boolean; // one-time wipe flag due to bug until version v1.4.0
   'smooth-transition-enabled'?: boolean;
 }
@@ -100,6 +109,7 @@ export interface IOpenRGBAccentSyncExtension {
   reconnectionAttempts: number;
   maxReconnectionAttempts: number;
   reconnectionDelay: number;
+  connectPromise: Promise<void> | null;
 
   // Sync state
   syncInProgress: boolean;
@@ -108,6 +118,11 @@ export interface IOpenRGBAccentSyncExtension {
   colorChangeQueue: RGBColor[];
   isProcessingQueue: boolean;
 
+  // State driven over D-Bus
+  overrideColor: RGBColor | null;
+  paused: boolean;
+  lastError: string | null;
+
   // Core methods
   enable(): void;
   disable(): void;
@@ -118,6 +133,7 @@ export interface IOpenRGBAccentSyncExtension {
 
   // OpenRGB connection management
   initializeOpenRGB(): Promise<void>;
+  connectOpenRGB(): Promise<void>;
   startReconnectionTimer(): void;
   ensureOpenRGBConnection(): Promise<boolean>;
   forceReconnection(): Promise<void>;
@@ -127,6 +143,12 @@ export interface IOpenRGBAccentSyncExtension {
   monitorAccentColor(): void;
   getAccentColor(settings: Gio.Settings): RGBColor | null;
   syncAccentColor(color: RGBColor): Promise<void>;
+
+  // D-Bus controls
+  setOverrideColor(color: RGBColor | null, expirySeconds: number): void;
+  pause(): void;
+  resume(): void;
+  resync(): void;
 }
 
 /**
@@ -203,6 +225,32 @@ export const ExtensionConstants = {
   SMOOTH_TRANSITION_KEY: 'smooth-transition-enabled',
 } as const;
 
+/**
+ * Display names for device types
+ */
+export const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
+  [DeviceType.MOTHERBOARD]: 'Motherboard',
+  [DeviceType.DRAM]: 'RAM',
+  [DeviceType.GPU]: 'GPU',
+  [DeviceType.COOLER]: 'Cooler',
+  [DeviceType.LEDSTRIP]: 'LED Strip',
+  [DeviceType.KEYBOARD]: 'Keyboard',
+  [DeviceType.MOUSE]: 'Mouse',
+  [DeviceType.MOUSEMAT]: 'Mousemat',
+  [DeviceType.HEADSET]: 'Headset',
+  [DeviceType.HEADSET_STAND]: 'Headset Stand',
+  [DeviceType.GAMEPAD]: 'Gamepad',
+  [DeviceType.LIGHT]: 'Light',
+  [DeviceType.SPEAKER]: 'Speaker',
+  [DeviceType.VIRTUAL]: 'Virtual',
+  [DeviceType.STORAGE]: 'Storage',
+  [DeviceType.CASE]: 'Case',
+  [DeviceType.MICROPHONE]: 'Microphone',
+  [DeviceType.ACCESSORY]: 'Accessory',
+  [DeviceType.KEYPAD]: 'Keypad',
+  [DeviceType.UNKNOWN]: 'Unknown',
+};
+
 /**
  * Type-safe accent color mapping
  */
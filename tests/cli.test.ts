@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseColor, runCli } from '../src/cli.js';
+import type { Device } from '../src/openrgb/client.js';
+import { DeviceData } from '../src/openrgb/device.js';
+import { DeviceType } from '../src/openrgb/enums.js';
+import { createVirtualDevice, FakeOpenRGBServer } from './openrgb/fake-server.js';
+
+function captureIO() {
+  const io = { out: '', err: '' };
+  return {
+    io,
+    sink: {
+      stdout: (text: string) => {
+        io.out += text;
+      },
+      stderr: (text: string) => {
+        io.err += text;
+      },
+    },
+  };
+}
+
+describe('parseColor', () => {
+  it.each([
+    ['#3584e4', { r: 53, g: 132, b: 228, a: 255 }],
+    ['3584E4', { r: 53, g: 132, b: 228, a: 255 }],
+    ['10, 20,30', { r: 10, g: 20, b: 30, a: 255 }],
+    ['Blue', { r: 53, g: 132, b: 228, a: 255 }],
+  ])('should parse %s', (text, color) => {
+    expect(parseColor(text)).toEqual(color);
+  });
+
+  it.each(['#12345', '256,0,0', 'toString', ''])('should reject %j', (text) => {
+    expect(() => parseColor(text)).toThrow('Invalid color');
+  });
+});
+
+describe('CLI against a fake server', () => {
+  let server: FakeOpenRGBServer;
+  let port: number;
+
+  const cli = async (...argv: string[]) => {
+    const { io, sink } = captureIO();
+    const code = await runCli([...argv, '--port', String(port)], sink);
+    return { code, ...io };
+  };
+
+  beforeEach(async () => {
+    server = new FakeOpenRGBServer({
+      devices: [
+        createVirtualDevice({ name: 'Strip', ledCount: 30, serial: 'S1' }),
+        createVirtualDevice({ name: 'Keyboard', ledCount: 104, type: DeviceType.KEYBOARD }),
+      ],
+    });
+    port = await server.listenTcp();
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  describe('list', () => {
+    it('should print devices as JSON without touching the server', async () => {
+      const { code, out } = await cli('list', '--json');
+
+      const devices = JSON.parse(out);
+      expect(code).toBe(0);
+      expect(devices).toHaveLength(2);
+      expect(devices[0]).toMatchObject({
+        index: 0,
+        name: 'Strip',
+        type: 'LEDSTRIP',
+        vendor: 'Virtual',
+        serial: 'S1',
+        ledCount: 30,
+        activeMode: 2,
+        directModeIndex: 0,
+        staticModeIndex: 1,
+        zones: [{ index: 0, name: 'Strip', type: 'LINEAR', ledCount: 30, matrix: null }],
+      });
+      expect(devices[0].stableId).toMatch(/^[0-9a-f]{16}$/);
+      expect(devices[0].modes.map((mode: { name: string }) => mode.name)).toEqual([
+        'Direct',
+        'Static',
+        'Rainbow',
+      ]);
+      expect(devices[0].modes[1].capabilities.manualSave).toBe(true);
+      expect(server.clientName).toBeNull();
+      expect(server.modeUpdates).toHaveLength(0);
+    });
+
+    it('should print a readable summary', async () => {
+      const { code, out } = await cli('list');
+
+      expect(code).toBe(0);
+      expect(out).toContain('Strip [LED Strip, Virtual]');
+      expect(out).toContain('0 Direct (direct)  1 Static (static)  2 Rainbow (active)');
+      expect(out).toContain('0 Strip: linear, 104 LEDs');
+    });
+
+    it('should keep the client log off stdout', async () => {
+      const { out, err } = await cli('list', '--json', '--verbose');
+
+      expect(() => JSON.parse(out)).not.toThrow();
+      expect(err).toContain('OpenRGB: Device discovery complete');
+    });
+  });
+
+  // The CLI exits once its writes are flushed; the server reads them a moment later
+  describe('set-color', () => {
+    it('should paint every device', async () => {
+      const { code, out } = await cli('set-color', '#3584e4', '--json');
+
+      expect(code).toBe(0);
+      expect(JSON.parse(out)).toMatchObject({
+        color: '#3584e4',
+        saved: false,
+        results: [
+          { name: 'Strip', success: true },
+          { name: 'Keyboard', success: true },
+        ],
+      });
+      await vi.waitFor(() => expect(server.ledUpdates).toHaveLength(2));
+      expect(server.ledUpdates.map((update) => update.deviceId)).toEqual([0, 1]);
+      expect(server.devices[1]?.colors[103]).toEqual({ r: 53, g: 132, b: 228, a: 0 });
+    });
+
+    it('should only paint the selected devices', async () => {
+      const { code, out } = await cli('set-color', '255,0,0', '--device', 'keyboard');
+
+      expect(code).toBe(0);
+      expect(out).toBe('Set #ff0000 on 1 devices\n');
+      await vi.waitFor(() => expect(server.ledUpdates).toHaveLength(1));
+      expect(server.ledUpdates.map((update) => update.deviceId)).toEqual([1]);
+    });
+
+    it('should save the color through the static mode', async () => {
+      const { code } = await cli('set-color', 'red', '--device', '0', '--save');
+
+      expect(code).toBe(0);
+      await vi.waitFor(() => expect(server.modeUpdates.some((update) => update.saved)).toBe(true));
+      const saved = server.modeUpdates.find((update) => update.saved);
+      expect(saved).toMatchObject({ deviceId: 0, modeIndex: 1 });
+      expect(saved?.mode.colors).toEqual([{ r: 243, g: 5, b: 17, a: 0 }]);
+    });
+
+    it('should refuse unknown devices', async () => {
+      const { code, err } = await cli('set-color', 'red', '--device', 'Mouse');
+
+      expect(code).toBe(2);
+      expect(err).toContain('No device matches "Mouse"');
+      expect(server.ledUpdates).toHaveLength(0);
+    });
+  });
+
+  describe('set-mode', () => {
+    it('should switch a device to a mode by name', async () => {
+      const { code, out } = await cli('set-mode', 'Strip', 'rainbow');
+
+      expect(code).toBe(0);
+      expect(out).toBe('Strip: mode 2 (Rainbow)\n');
+      await vi.waitFor(() => expect(server.modeUpdates).toHaveLength(1));
+      expect(server.modeUpdates).toEqual([
+        expect.objectContaining({ deviceId: 0, modeIndex: 2, saved: false }),
+      ]);
+    });
+
+    it('should pass mode colors', async () => {
+      const { code, out } = await cli('set-mode', '1', '1', '--color', '#00ff00', '--json');
+
+      expect(code).toBe(0);
+      expect(JSON.parse(out).mode.colors).toEqual([{ r: 0, g: 255, b: 0, a: 255 }]);
+      await vi.waitFor(() => expect(server.modeUpdates).toHaveLength(1));
+      expect(server.modeUpdates[0]?.mode.colors).toEqual([{ r: 0, g: 255, b: 0, a: 0 }]);
+    });
+
+    it('should list the modes when the mode is unknown', async () => {
+      const { code, err } = await cli('set-mode', 'Strip', 'Breathing');
+
+      expect(code).toBe(2);
+      expect(err).toContain('modes: 0 Direct, 1 Static, 2 Rainbow');
+    });
+  });
+
+  describe('dump-raw', () => {
+    it('should dump the controller data bytes as sent', async () => {
+      const { out: listed } = await cli('list', '--json');
+      const stableId = JSON.parse(listed)[1].stableId;
+
+      const { code, out } = await cli('dump-raw', stableId, '--json');
+
+      const [dump] = JSON.parse(out);
+      expect(code).toBe(0);
+      expect(dump).toMatchObject({ index: 1, stableId, name: 'Keyboard', protocolVersion: 5 });
+      expect(dump.data).toBe(
+        Buffer.from(DeviceData.serialize(server.devices[1]!, 5)).toString('hex'),
+      );
+      expect(dump.size).toBe(dump.data.length / 2);
+    });
+
+    it('should print a hex dump of every device', async () => {
+      const { code, out } = await cli('dump-raw');
+
+      expect(code).toBe(0);
+      expect(out).toMatch(/^# Strip \(index 0, stableId [0-9a-f]{16}, protocol 5, \d+ bytes\)$/m);
+      expect(out).toMatch(/^# Keyboard \(index 1, /m);
+      expect(out).toMatch(/^00000000 {2}([0-9a-f]{2} ){15}[0-9a-f]{2} {2}\|.{16}\|$/m);
+    });
+  });
+
+  describe('watch', () => {
+    it('should print devices as they come and go', async () => {
+      const { io, sink } = captureIO();
+      const controller = new AbortController();
+      const watching = runCli(
+        ['watch', '--json', '--port', String(port)],
+        sink,
+        undefined,
+        controller.signal,
+      );
+      await vi.waitFor(() => expect(io.out).toContain('"event":"devices"'));
+
+      server.setDevices([
+        ...server.devices,
+        createVirtualDevice({ name: 'Fan', ledCount: 8, type: DeviceType.COOLER }),
+      ]);
+      await vi.waitFor(() => expect(io.out).toContain('"event":"added"'));
+      server.setDevices(server.devices.slice(0, 1));
+      await vi.waitFor(() => expect(io.out).toContain('"event":"removed"'));
+      controller.abort();
+
+      expect(await watching).toBe(0);
+      const events = io.out
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(
+        events.map(({ event, devices }) => [event, devices.map(({ name }: Device) => name)]),
+      ).toEqual([
+        ['devices', ['Strip', 'Keyboard']],
+        ['added', ['Fan']],
+        ['removed', ['Keyboard', 'Fan']],
+      ]);
+      expect(server.modeUpdates).toHaveLength(0);
+    });
+
+    it('should stop when the server goes away', async () => {
+      const { io, sink } = captureIO();
+      const watching = runCli(['watch', '--port', String(port)], sink);
+      await vi.waitFor(() => expect(io.out).toContain('+ Keyboard'));
+
+      server.dropConnection();
+
+      expect(await watching).toBe(1);
+      expect(io.err).toContain('Disconnected: Connection closed by server');
+    });
+  });
+
+  it('should fail when nothing listens', async () => {
+    server.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const { code, err } = await cli('list');
+
+    expect(code).toBe(1);
+    expect(err).toContain(`Could not connect to 127.0.0.1:${port}`);
+  });
+
+  it('should reject unknown commands', async () => {
+    const { code, err } = await cli('paint');
+
+    expect(code).toBe(2);
+    expect(err).toContain('Unknown command "paint"');
+    expect(err).toContain('Usage: cli <command>');
+  });
+});
@@ -0,0 +1,238 @@
+import { type ChildProcess, execFile, spawn, spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { promisify } from 'node:util';
+import ts from 'typescript';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DBUS_INTERFACE_NAME, DBUS_OBJECT_PATH } from '../src/dbus.js';
+
+// The real interface under GJS on a throwaway bus: the service owns org.gnome.Shell there,
+// like the shell the extension runs in, and gdbus or a second GJS process calls it
+const REQUIRED_TOOLS = ['dbus-run-session', 'gjs', 'gdbus'];
+const missingTools = REQUIRED_TOOLS.filter(
+  (tool) => spawnSync('sh', ['-c', `command -v ${tool}`]).status !== 0,
+);
+// CI installs the tools and sets this, so a missing tool there fails instead of skipping
+const required = Boolean(process.env.REQUIRE_DBUS_SESSION_TEST);
+
+const run = promisify(execFile);
+
+// Modules the GJS scripts import, transpiled as they would be for the extension
+const MODULES = ['src/dbus.ts', 'src/openrgb/enums.ts'];
+
+const SERVICE_SCRIPT = `
+import Gio from 'gi://Gio';
+import GLib from 'gi://GLib';
+import { AccentSyncDBusService } from './src/dbus.js';
+import { DeviceType } from './src/openrgb/enums.js';
+
+const loop = new GLib.MainLoop(null, false);
+const controller = {
+  lastAppliedDeviceColor: { r: 53, g: 132, b: 228, a: 255 },
+  overrideColor: null,
+  paused: false,
+  lastError: null,
+  getConnectionState: () => 'connected',
+  getServerAddress: () => 'localhost:6742',
+  getConnectedAddress: () => '127.0.0.1:6742',
+  getDevices: () => [
+    { ephemeralId: 0, stableId: 'a1b2c3d4e5f60718', name: 'Strip', type: DeviceType.LEDSTRIP,
+      vendor: 'Virtual', ledCount: 30, directModeIndex: 0, staticModeIndex: 1, data: null },
+  ],
+  isDeviceIgnored: () => false,
+  setOverrideColor(color, expirySeconds) {
+    this.overrideColor = color;
+    printerr('override ' + JSON.stringify(color) + ' ' + expirySeconds);
+    service.notifyStateChanged();
+  },
+  pause() {
+    this.paused = true;
+    service.notifyStateChanged();
+  },
+  resume() {
+    this.paused = false;
+    service.notifyStateChanged();
+  },
+  resync: () => printerr('resync'),
+  forceReconnection: async () => printerr('reconnect'),
+};
+const service = new AccentSyncDBusService(controller);
+
+Gio.bus_own_name(
+  Gio.BusType.SESSION,
+  'org.gnome.Shell',
+  Gio.BusNameOwnerFlags.NONE,
+  (connection) => service.export(connection),
+  () => printerr('ready ' + GLib.getenv('DBUS_SESSION_BUS_ADDRESS')),
+  () => loop.quit(),
+);
+// Stop when the test closes our stdin, and never outlive the test run anyway
+const { InputStream } = await import('gi://GioUnix')
+  .then((module) => module.default)
+  .catch(() => ({ InputStream: Gio.UnixInputStream }));
+new InputStream({ fd: 0, close_fd: false }).read_bytes_async(
+  1,
+  GLib.PRIORITY_DEFAULT,
+  null,
+  () => loop.quit(),
+);
+GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, 60, () => loop.quit());
+loop.run();
+`;
+
+const CLIENT_SCRIPT = `
+import GLib from 'gi://GLib';
+import { queryRunningExtension } from './src/dbus.js';
+
+const loop = new GLib.MainLoop(null, false);
+queryRunningExtension().then((status) => {
+  print(JSON.stringify(status));
+  loop.quit();
+});
+loop.run();
+`;
+
+describe.skipIf(missingTools.length > 0 && !required)(
+  'D-Bus interface on a private session bus',
+  () => {
+    let workDir: string;
+    let service: ChildProcess;
+    let serviceLog = '';
+    let env: NodeJS.ProcessEnv;
+
+    const gdbusCall = (method: string, ...args: string[]) =>
+      run(
+        'gdbus',
+        [
+          'call',
+          '--session',
+          '--dest',
+          'org.gnome.Shell',
+          '--object-path',
+          DBUS_OBJECT_PATH,
+          '--method',
+          method,
+          ...args,
+        ],
+        { env, timeout: 10000 },
+      );
+
+    const getProperty = async (name: string) =>
+      (await gdbusCall('org.freedesktop.DBus.Properties.Get', DBUS_INTERFACE_NAME, name)).stdout;
+
+    beforeAll(async () => {
+      if (missingTools.length > 0) {
+        throw new Error(`Missing ${missingTools.join(', ')}`);
+      }
+      workDir = mkdtempSync(join(tmpdir(), 'openrgb-dbus-'));
+      for (const module of MODULES) {
+        const { outputText } = ts.transpileModule(readFileSync(module, 'utf8'), {
+          compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+        });
+        const output = join(workDir, module.replace(/\.ts$/, '.js'));
+        mkdirSync(dirname(output), { recursive: true });
+        writeFileSync(output, outputText);
+      }
+      writeFileSync(join(workDir, 'service.js'), SERVICE_SCRIPT);
+      writeFileSync(join(workDir, 'client.js'), CLIENT_SCRIPT);
+
+      service = spawn('dbus-run-session', ['--', 'gjs', '-m', 'service.js'], { cwd: workDir });
+      const address = await new Promise<string>((resolve, reject) => {
+        service.stderr?.on('data', (chunk: Buffer) => {
+          serviceLog += chunk.toString();
+          const ready = /^ready (\S+)$/m.exec(serviceLog);
+          if (ready) {
+            resolve(ready[1]!);
+          }
+        });
+        service.on('exit', (code) => reject(new Error(`Service exited (${code}): ${serviceLog}`)));
+      });
+      env = { ...process.env, DBUS_SESSION_BUS_ADDRESS: address };
+    }, 20000);
+
+    afterAll(async () => {
+      // Closing stdin stops the service, and dbus-run-session then ends the private bus
+      if (service && service.exitCode === null) {
+        const exited = new Promise((resolve) => service.once('exit', resolve));
+        service.stdin?.end();
+        await exited;
+      }
+      if (workDir) {
+        rmSync(workDir, { recursive: true, force: true });
+      }
+    }, 20000);
+
+    it('should publish the extension state as properties', async () => {
+      expect(await getProperty('ConnectionState')).toContain("<'connected'>");
+      expect(await getProperty('LastAppliedColor')).toContain("<'#3584e4'>");
+      expect(await getProperty('DeviceCount')).toContain('<uint32 1>');
+      expect(await getProperty('ConnectedAddress')).toContain("<'127.0.0.1:6742'>");
+    });
+
+    it('should set an override color', async () => {
+      const { stdout } = await gdbusCall(
+        `${DBUS_INTERFACE_NAME}.SetOverrideColor`,
+        '#FF8000',
+        '30',
+      );
+
+      expect(stdout.trim()).toBe('()');
+      await vi.waitFor(() =>
+        expect(serviceLog).toContain('override {"r":255,"g":128,"b":0,"a":255} 30'),
+      );
+      expect(await getProperty('OverrideColor')).toContain("<'#ff8000'>");
+    });
+
+    it('should answer a malformed color with InvalidArgs', async () => {
+      const error = await gdbusCall(`${DBUS_INTERFACE_NAME}.SetOverrideColor`, 'orange', '0').catch(
+        (e: { stderr: string }) => e,
+      );
+
+      expect((error as { stderr: string }).stderr).toContain(
+        'org.freedesktop.DBus.Error.InvalidArgs',
+      );
+    });
+
+    it('should pause and resync', async () => {
+      await gdbusCall(`${DBUS_INTERFACE_NAME}.Pause`);
+      expect(await getProperty('Paused')).toContain('<true>');
+
+      await gdbusCall(`${DBUS_INTERFACE_NAME}.Resume`);
+      await gdbusCall(`${DBUS_INTERFACE_NAME}.Resync`);
+      expect(await getProperty('Paused')).toContain('<false>');
+      await vi.waitFor(() => expect(serviceLog).toContain('resync'));
+    });
+
+    it('should reply to Reconnect after reconnecting', async () => {
+      const { stdout } = await gdbusCall(`${DBUS_INTERFACE_NAME}.Reconnect`);
+
+      expect(stdout.trim()).toBe('()');
+      await vi.waitFor(() => expect(serviceLog).toContain('reconnect'));
+    });
+
+    it('should list devices', async () => {
+      const { stdout } = await gdbusCall(`${DBUS_INTERFACE_NAME}.ListDevices`);
+
+      expect(stdout).toContain("'stableId': <'a1b2c3d4e5f60718'>");
+      expect(stdout).toContain("'type': <'LEDSTRIP'>");
+      expect(stdout).toContain("'staticModeIndex': <uint32 1>");
+    });
+
+    it('should be readable from another process the way preferences read it', async () => {
+      const { stdout } = await run('gjs', ['-m', 'client.js'], {
+        cwd: workDir,
+        env,
+        timeout: 10000,
+      });
+
+      expect(JSON.parse(stdout)).toMatchObject({
+        connectionState: 'connected',
+        serverAddress: 'localhost:6742',
+        connectedAddress: '127.0.0.1:6742',
+        lastError: null,
+        devices: [{ stableId: 'a1b2c3d4e5f60718', name: 'Strip', staticModeIndex: 1 }],
+      });
+    });
+  },
+);
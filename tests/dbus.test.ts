@@ -0,0 +1,489 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AccentSyncController,
+  AccentSyncDBusService,
+  type ConnectionState,
+  DBUS_INTERFACE_NAME,
+  DBUS_INTERFACE_XML,
+  DBUS_OBJECT_PATH,
+  formatHexColor,
+  parseHexColor,
+  queryRunningExtension,
+  requestResync,
+} from '../src/dbus.js';
+import type { Device } from '../src/openrgb/client.js';
+import { DeviceType } from '../src/openrgb/enums.js';
+import type { RGBColor } from '../src/openrgb/types.js';
+
+// GJS is not available, so the exported object records what Gio would put on the bus
+const exportedObjects = vi.hoisted(() => [] as any[]);
+
+vi.mock('gi://Gio', () => ({
+  default: {
+    DBusCallFlags: { NONE: 0 },
+    DBusExportedObject: {
+      wrapJSObject: (xml: string, impl: object) => {
+        const exported = {
+          xml,
+          impl,
+          path: null as string | null,
+          changes: [] as [string, unknown][],
+          export: (_connection: unknown, path: string) => {
+            exported.path = path;
+          },
+          unexport: () => {
+            exported.path = null;
+          },
+          emit_property_changed: (name: string, variant: { value: unknown }) => {
+            exported.changes.push([name, variant.value]);
+          },
+        };
+        exportedObjects.push(exported);
+        return exported;
+      },
+    },
+  },
+}));
+
+vi.mock('gi://GLib', () => ({
+  default: {
+    Variant: class {
+      constructor(
+        public signature: string,
+        public value: unknown,
+      ) {}
+    },
+  },
+}));
+
+function createDevice(overrides: Partial<Device> = {}): Device {
+  return {
+    ephemeralId: 0,
+    stableId: 'a1b2c3d4e5f60718',
+    name: 'Strip',
+    type: DeviceType.LEDSTRIP,
+    vendor: 'Virtual',
+    ledCount: 30,
+    directModeIndex: 0,
+    staticModeIndex: null,
+    data: null,
+    ...overrides,
+  };
+}
+
+class FakeExtension implements AccentSyncController {
+  lastAppliedDeviceColor: RGBColor | null = null;
+  overrideColor: RGBColor | null = null;
+  paused = false;
+  lastError: string | null = null;
+  state: ConnectionState = 'disconnected';
+  connectedAddress: string | null = null;
+  devices: Device[] = [];
+  ignored = new Set<string>();
+  reconnect = vi.fn(async () => {
+    this.state = 'connected';
+  });
+  resync = vi.fn();
+
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+  getServerAddress(): string {
+    return 'localhost:6742';
+  }
+  getConnectedAddress(): string | null {
+    return this.connectedAddress;
+  }
+  getDevices(): Device[] {
+    return this.devices;
+  }
+  isDeviceIgnored(device: Device): boolean {
+    return this.ignored.has(device.stableId);
+  }
+  setOverrideColor(color: RGBColor | null, _expirySeconds: number): void {
+    this.overrideColor = color;
+  }
+  pause(): void {
+    this.paused = true;
+  }
+  resume(): void {
+    this.paused = false;
+  }
+  forceReconnection(): Promise<void> {
+    return this.reconnect();
+  }
+}
+
+/**
+ * Interface members declared in the introspection XML, by kind
+ */
+function declared(kind: 'method' | 'property'): string[] {
+  return [...DBUS_INTERFACE_XML.matchAll(new RegExp(`<${kind} name="(\\w+)"`, 'g'))].map(
+    (match) => match[1]!,
+  );
+}
+
+describe('AccentSyncDBusService', () => {
+  let extension: FakeExtension;
+  let service: AccentSyncDBusService;
+  let exported: any;
+
+  beforeEach(() => {
+    exportedObjects.length = 0;
+    extension = new FakeExtension();
+    service = new AccentSyncDBusService(extension);
+    service.export({});
+    exported = exportedObjects[0];
+  });
+
+  it('should export the interface at its object path', () => {
+    expect(exportedObjects).toHaveLength(1);
+    expect(exported.xml).toBe(DBUS_INTERFACE_XML);
+    expect(exported.impl).toBe(service);
+    expect(exported.path).toBe(DBUS_OBJECT_PATH);
+
+    service.export({});
+    expect(exportedObjects).toHaveLength(1);
+
+    service.unexport();
+    expect(exported.path).toBeNull();
+  });
+
+  it('should implement every method and property it declares', () => {
+    const impl = service as unknown as Record<string, unknown>;
+
+    for (const method of declared('method')) {
+      expect(typeof (impl[method] ?? impl[`${method}Async`]), method).toBe('function');
+    }
+    expect(declared('property')).toEqual([
+      'ConnectionState',
+      'LastAppliedColor',
+      'DeviceCount',
+      'OverrideColor',
+      'Paused',
+      'LastError',
+      'ServerAddress',
+      'ConnectedAddress',
+    ]);
+    for (const property of declared('property')) {
+      expect(impl[property], property).not.toBeUndefined();
+    }
+  });
+
+  describe('methods', () => {
+    it('should set and clear the override color', () => {
+      const setOverride = vi.spyOn(extension, 'setOverrideColor');
+
+      service.SetOverrideColor('#FF8000', 30);
+      expect(setOverride).toHaveBeenLastCalledWith({ r: 255, g: 128, b: 0, a: 255 }, 30);
+      expect(service.OverrideColor).toBe('#ff8000');
+
+      service.SetOverrideColor('', 0);
+      expect(setOverride).toHaveBeenLastCalledWith(null, 0);
+      expect(service.OverrideColor).toBe('');
+    });
+
+    it('should answer a malformed color with InvalidArgs', () => {
+      const error = (() => {
+        try {
+          service.SetOverrideColor('orange', 0);
+        } catch (e) {
+          return e as Error;
+        }
+      })();
+
+      expect(error?.name).toBe('org.freedesktop.DBus.Error.InvalidArgs');
+      expect(error?.message).toContain('Invalid color "orange"');
+      expect(extension.overrideColor).toBeNull();
+    });
+
+    it('should pause, resume and resync', () => {
+      service.Pause();
+      expect(service.Paused).toBe(true);
+
+      service.Resume();
+      expect(service.Paused).toBe(false);
+
+      service.Resync();
+      expect(extension.resync).toHaveBeenCalledOnce();
+    });
+
+    it('should reply to Reconnect once the reconnection finished', async () => {
+      const invocation = { return_value: vi.fn(), return_dbus_error: vi.fn() };
+
+      service.ReconnectAsync([], invocation as any);
+
+      expect(extension.reconnect).toHaveBeenCalledOnce();
+      await vi.waitFor(() => expect(invocation.return_value).toHaveBeenCalledWith(null));
+      expect(invocation.return_dbus_error).not.toHaveBeenCalled();
+    });
+
+    it('should reply to a failed Reconnect with an error', async () => {
+      const invocation = { return_value: vi.fn(), return_dbus_error: vi.fn() };
+      extension.reconnect.mockRejectedValueOnce(new Error('Client not initialized'));
+
+      service.ReconnectAsync([], invocation as any);
+
+      await vi.waitFor(() =>
+        expect(invocation.return_dbus_error).toHaveBeenCalledWith(
+          'org.freedesktop.DBus.Error.Failed',
+          'Client not initialized',
+        ),
+      );
+    });
+
+    it('should list devices with their ignored state', () => {
+      extension.devices = [
+        createDevice(),
+        createDevice({
+          ephemeralId: 1,
+          stableId: '0f1e2d3c4b5a6978',
+          name: 'Keyboard',
+          type: DeviceType.KEYBOARD,
+          ledCount: 104,
+          staticModeIndex: 1,
+        }),
+      ];
+      extension.ignored.add('0f1e2d3c4b5a6978');
+
+      const devices = service
+        .ListDevices()
+        .map((device) =>
+          Object.fromEntries(
+            Object.entries(device).map(([key, variant]) => [key, (variant as any).value]),
+          ),
+        );
+
+      expect(devices).toEqual([
+        {
+          stableId: 'a1b2c3d4e5f60718',
+          ephemeralId: 0,
+          name: 'Strip',
+          type: 'LEDSTRIP',
+          vendor: 'Virtual',
+          ledCount: 30,
+          ignored: false,
+        },
+        {
+          stableId: '0f1e2d3c4b5a6978',
+          ephemeralId: 1,
+          name: 'Keyboard',
+          type: 'KEYBOARD',
+          vendor: 'Virtual',
+          ledCount: 104,
+          ignored: true,
+          staticModeIndex: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('properties', () => {
+    it('should read the extension state', () => {
+      extension.state = 'reconnecting';
+      extension.lastAppliedDeviceColor = { r: 53, g: 132, b: 228, a: 255 };
+      extension.devices = [createDevice()];
+
+      expect(service.ConnectionState).toBe('reconnecting');
+      expect(service.LastAppliedColor).toBe('#3584e4');
+      expect(service.DeviceCount).toBe(1);
+      expect(service.Paused).toBe(false);
+      expect(service.LastError).toBe('');
+      expect(service.ServerAddress).toBe('localhost:6742');
+      expect(service.ConnectedAddress).toBe('');
+    });
+
+    it('should only emit the properties that changed', () => {
+      service.notifyStateChanged();
+      expect(exported.changes).toEqual([]);
+
+      extension.state = 'connected';
+      extension.connectedAddress = '127.0.0.1:6742';
+      extension.devices = [createDevice(), createDevice({ ephemeralId: 1 })];
+      extension.lastAppliedDeviceColor = { r: 0, g: 255, b: 0, a: 255 };
+      service.notifyStateChanged();
+      service.notifyStateChanged();
+      extension.lastError = 'Connection closed by server';
+      service.notifyStateChanged();
+
+      expect(exported.changes).toEqual([
+        ['ConnectionState', 'connected'],
+        ['LastAppliedColor', '#00ff00'],
+        ['DeviceCount', 2],
+        ['ConnectedAddress', '127.0.0.1:6742'],
+        ['LastError', 'Connection closed by server'],
+      ]);
+    });
+
+    it('should stay quiet once unexported', () => {
+      service.unexport();
+      extension.paused = true;
+
+      service.notifyStateChanged();
+
+      expect(exported.changes).toEqual([]);
+    });
+  });
+});
+
+// The other side of the bus, as the preferences window calls it
+describe('querying the running extension', () => {
+  const replies: Record<string, () => unknown> = {};
+  const calls: { interfaceName: string; method: string; parameters: any }[] = [];
+  const connection = {
+    call: (
+      destination: string,
+      path: string,
+      interfaceName: string,
+      method: string,
+      parameters: unknown,
+      _replyType: unknown,
+      _flags: unknown,
+      _timeout: number,
+      _cancellable: unknown,
+      callback: (source: unknown, result: string) => void,
+    ) => {
+      expect(destination).toBe('org.gnome.Shell');
+      expect(path).toBe(DBUS_OBJECT_PATH);
+      calls.push({ interfaceName, method, parameters });
+      setTimeout(() => callback(connection, method), 0);
+    },
+    call_finish: (method: string) => {
+      const reply = replies[method];
+      if (!reply) {
+        throw new Error(`No such interface “${DBUS_INTERFACE_NAME}” on object`);
+      }
+      const value = reply();
+      return { recursiveUnpack: () => value };
+    },
+  };
+
+  beforeEach(() => {
+    calls.length = 0;
+    for (const method of Object.keys(replies)) {
+      delete replies[method];
+    }
+  });
+
+  it('should read the properties and devices', async () => {
+    replies.GetAll = () => [
+      {
+        ConnectionState: 'connected',
+        ServerAddress: 'localhost:6742',
+        ConnectedAddress: '[::1]:6742',
+        LastError: '',
+        Paused: true,
+        DeviceCount: 1,
+      },
+    ];
+    replies.ListDevices = () => [
+      [
+        {
+          stableId: 'a1b2c3d4e5f60718',
+          ephemeralId: 0,
+          name: 'Keyboard',
+          type: 'KEYBOARD',
+          vendor: 'Virtual',
+          ledCount: 104,
+          ignored: false,
+          staticModeIndex: 1,
+        },
+        {
+          stableId: '0f1e2d3c4b5a6978',
+          ephemeralId: 1,
+          name: 'Gadget',
+          type: 'FROM_THE_FUTURE',
+          vendor: '',
+          ledCount: 1,
+          ignored: true,
+        },
+      ],
+    ];
+
+    const status = await queryRunningExtension(connection as any);
+
+    expect(calls[0]?.interfaceName).toBe('org.freedesktop.DBus.Properties');
+    expect(calls[0]?.parameters.value).toEqual([DBUS_INTERFACE_NAME]);
+    expect(status).toEqual({
+      connectionState: 'connected',
+      serverAddress: 'localhost:6742',
+      connectedAddress: '[::1]:6742',
+      lastError: null,
+      paused: true,
+      devices: [
+        {
+          stableId: 'a1b2c3d4e5f60718',
+          ephemeralId: 0,
+          name: 'Keyboard',
+          type: DeviceType.KEYBOARD,
+          vendor: 'Virtual',
+          ledCount: 104,
+          staticModeIndex: 1,
+          ignored: false,
+        },
+        {
+          stableId: '0f1e2d3c4b5a6978',
+          ephemeralId: 1,
+          name: 'Gadget',
+          type: DeviceType.UNKNOWN,
+          vendor: '',
+          ledCount: 1,
+          staticModeIndex: null,
+          ignored: true,
+        },
+      ],
+    });
+  });
+
+  it('should pass on the last error', async () => {
+    replies.GetAll = () => [
+      {
+        ConnectionState: 'reconnecting',
+        LastError: 'Could not connect to 127.0.0.1:6742 (Connection refused)',
+        Paused: false,
+      },
+    ];
+    replies.ListDevices = () => [[]];
+
+    const status = await queryRunningExtension(connection as any);
+
+    expect(status).toMatchObject({
+      connectionState: 'reconnecting',
+      connectedAddress: null,
+      lastError: 'Could not connect to 127.0.0.1:6742 (Connection refused)',
+      devices: [],
+    });
+  });
+
+  it('should resolve to null when the extension is not running', async () => {
+    expect(await queryRunningExtension(connection as any)).toBeNull();
+    expect(await requestResync(connection as any)).toBe(false);
+  });
+
+  it('should ask for a resync', async () => {
+    replies.Resync = () => [];
+
+    expect(await requestResync(connection as any)).toBe(true);
+    expect(calls).toEqual([
+      { interfaceName: DBUS_INTERFACE_NAME, method: 'Resync', parameters: null },
+    ]);
+  });
+});
+
+describe('hex colors', () => {
+  it.each([
+    ['#3584e4', { r: 53, g: 132, b: 228, a: 255 }],
+    ['3584E4', { r: 53, g: 132, b: 228, a: 255 }],
+  ])('should parse %s', (text, color) => {
+    expect(parseHexColor(text)).toEqual(color);
+  });
+
+  it.each(['#12345', '#3584e4ff', 'blue', ''])('should reject %j', (text) => {
+    expect(parseHexColor(text)).toBeNull();
+  });
+
+  it('should format colors and the absence of one', () => {
+    expect(formatHexColor({ r: 1, g: 2, b: 255, a: 0 })).toBe('#0102ff');
+    expect(formatHexColor(null)).toBe('');
+  });
+});
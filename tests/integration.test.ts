@@ -52,7 +52,8 @@ describe('OpenRGB Module Integration', () => {
 
     it('should create OpenRGBClient instances', async () => {
       const { OpenRGBClient } = await import('../src/openrgb/client.js');
-      const client = new OpenRGBClient();
+      const { gioPlatform } = await import('../src/openrgb/gio-transport.js');
+      const client = new OpenRGBClient(gioPlatform);
       expect(client).toBeInstanceOf(OpenRGBClient);
     });
   });
@@ -144,15 +145,13 @@ describe('OpenRGB Module Integration', () => {
       expect(() => parser.readRGBColor()).toThrow();
     });
 
-    it('should handle invalid data gracefully', async () => {
+    it('should reject invalid data with a parse error', async () => {
       const { DeviceData } = await import('../src/openrgb/device.js');
+      const { OpenRGBParseError } = await import('../src/openrgb/errors.js');
       const emptyBuffer = new ArrayBuffer(0);
 
-      // Should not throw, but return valid DeviceData instance
-      expect(() => {
-        const result = DeviceData.parse(emptyBuffer);
-        expect(result).toBeInstanceOf(DeviceData);
-      }).not.toThrow();
+      // Should fail loudly instead of returning a partially filled device
+      expect(() => DeviceData.parse(emptyBuffer)).toThrow(OpenRGBParseError);
     });
   });
 
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { migrateLegacyStableIds } from '../src/migration.js';
+import { gioLegacySha256, gioSha256 } from '../src/openrgb/gio-transport.js';
+import { buildDeviceFingerprint, hashFingerprint } from '../src/openrgb/hash.js';
+
+vi.mock('gi://GLib', async () => ({
+  default: {
+    ...(await import('./openrgb/fake-server.js')).fakeGLib,
+    Variant: class {
+      constructor(
+        readonly signature: string,
+        readonly value: unknown,
+      ) {}
+      deep_unpack() {
+        return this.value;
+      }
+    },
+  },
+}));
+
+class FakeSettings {
+  values: Record<string, unknown>;
+
+  constructor(values: Record<string, unknown>) {
+    this.values = values;
+  }
+  get_strv(key: string): string[] {
+    return [...(this.values[key] as string[])];
+  }
+  set_strv(key: string, value: string[]): void {
+    this.values[key] = value;
+  }
+  get_value(key: string) {
+    const value = this.values[key];
+    return { deep_unpack: () => ({ ...(value as Record<string, string>) }) };
+  }
+  set_value(key: string, variant: { value: unknown }): void {
+    this.values[key] = variant.value;
+  }
+}
+
+// A keyboard whose stableId changed when the GIO hash started covering the whole UTF-8 name
+const fingerprint = buildDeviceFingerprint({
+  serial: null,
+  location: 'HID: /dev/hidraw3',
+  name: 'Clavier Gaming RGB — Édition Ω',
+  ledCount: 104,
+});
+const currentId = hashFingerprint(fingerprint, gioSha256);
+const legacyId = hashFingerprint(fingerprint, gioLegacySha256);
+
+describe('migrateLegacyStableIds', () => {
+  it('should derive a different legacy id for a non-ASCII device name', () => {
+    expect(legacyId).not.toBe(currentId);
+    const ascii = buildDeviceFingerprint({
+      serial: 'S1',
+      location: 'usb',
+      name: 'Strip',
+      ledCount: 30,
+    });
+    expect(hashFingerprint(ascii, gioLegacySha256)).toBe(hashFingerprint(ascii, gioSha256));
+  });
+
+  it('should move every stored setting to the current id', () => {
+    const settings = new FakeSettings({
+      'ignored-devices': [
+        JSON.stringify({ stableId: legacyId, name: 'Clavier', ledCount: 104 }),
+        JSON.stringify({ stableId: 'a1b2c3d4e5f60718', name: 'Strip', ledCount: 30 }),
+        'not json',
+      ],
+      'persist-color-devices': [legacyId, 'a1b2c3d4e5f60718'],
+      'persisted-colors': { [legacyId]: '#3584e4', a1b2c3d4e5f60718: '#ff0000' },
+    });
+
+    const changed = migrateLegacyStableIds(settings as any, new Map([[currentId, legacyId]]));
+
+    expect(changed).toBe(true);
+    expect(settings.values['ignored-devices']).toEqual([
+      JSON.stringify({ stableId: currentId, name: 'Clavier', ledCount: 104 }),
+      JSON.stringify({ stableId: 'a1b2c3d4e5f60718', name: 'Strip', ledCount: 30 }),
+      'not json',
+    ]);
+    expect(settings.values['persist-color-devices']).toEqual([currentId, 'a1b2c3d4e5f60718']);
+    expect(settings.values['persisted-colors']).toEqual({
+      [currentId]: '#3584e4',
+      a1b2c3d4e5f60718: '#ff0000',
+    });
+  });
+
+  it('should prefer a color already saved under the current id', () => {
+    const settings = new FakeSettings({
+      'ignored-devices': [],
+      'persist-color-devices': [currentId],
+      'persisted-colors': { [currentId]: '#00ff00', [legacyId]: '#3584e4' },
+    });
+
+    migrateLegacyStableIds(settings as any, new Map([[currentId, legacyId]]));
+
+    expect(settings.values['persisted-colors']).toEqual({ [currentId]: '#00ff00' });
+  });
+
+  it('should leave settings alone once migrated', () => {
+    const settings = new FakeSettings({
+      'ignored-devices': [JSON.stringify({ stableId: currentId })],
+      'persist-color-devices': [currentId],
+      'persisted-colors': { [currentId]: '#3584e4' },
+    });
+    const setStrv = vi.spyOn(settings, 'set_strv');
+    const setValue = vi.spyOn(settings, 'set_value');
+
+    expect(migrateLegacyStableIds(settings as any, new Map([[currentId, legacyId]]))).toBe(false);
+    expect(setStrv).not.toHaveBeenCalled();
+    expect(setValue).not.toHaveBeenCalled();
+  });
+});
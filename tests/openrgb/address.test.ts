@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatServerAddress, parseServerAddress } from '../../src/openrgb/address.js';
+import { connectToServer, resolveServerAddresses } from '../../src/openrgb/gio-transport.js';
+
+// Resolver and socket doubles: the test decides what a name resolves to and which addresses accept
+const network = vi.hoisted(() => ({
+  dns: {} as Record<string, string[]>,
+  reachable: new Set<string>(),
+  attempts: [] as string[],
+}));
+
+vi.mock('gi://Gio', () => {
+  const isLiteral = (host: string) => /^[\d.]+$/.test(host) || host.includes(':');
+  const inetAddress = (host: string) => ({ to_string: () => host });
+
+  return {
+    default: {
+      InetAddress: {
+        new_from_string: (host: string) => (isLiteral(host) ? inetAddress(host) : null),
+      },
+      InetSocketAddress: {
+        new: (address: { to_string(): string }, port: number) => ({
+          get_address: () => address,
+          get_port: () => port,
+        }),
+      },
+      Resolver: {
+        get_default: () => ({
+          lookup_by_name_async(host: string, _cancellable: unknown, callback: any) {
+            const resolver = {
+              lookup_by_name_finish: () => {
+                const addresses = network.dns[host];
+                if (!addresses) throw new Error('Name or service not known');
+                return addresses.map(inetAddress);
+              },
+            };
+            setTimeout(() => callback(resolver, {}), 0);
+          },
+        }),
+      },
+      SocketClient: class {
+        connect_async(address: any, _cancellable: unknown, callback: any) {
+          const host = address.get_address().to_string();
+          network.attempts.push(host);
+          const source = {
+            connect_finish: () => {
+              if (!network.reachable.has(host)) throw new Error('Connection refused');
+              return { host };
+            },
+          };
+          setTimeout(() => callback(source, {}), 0);
+        }
+      },
+    },
+  };
+});
+
+describe('server address handling', () => {
+  beforeEach(() => {
+    network.dns = {};
+    network.reachable = new Set();
+    network.attempts = [];
+  });
+
+  describe('parseServerAddress', () => {
+    it.each([
+      ['127.0.0.1', { host: '127.0.0.1', port: 6742 }],
+      ['localhost', { host: 'localhost', port: 6742 }],
+      ['rgb.lan:6800', { host: 'rgb.lan', port: 6800 }],
+      ['::1', { host: '::1', port: 6742 }],
+      ['fe80::1:6800', { host: 'fe80::1:6800', port: 6742 }],
+      ['[::1]', { host: '::1', port: 6742 }],
+      ['[fd00::2]:6800', { host: 'fd00::2', port: 6800 }],
+      ['  10.0.0.5  ', { host: '10.0.0.5', port: 6742 }],
+    ])('parses %s', (input, expected) => {
+      expect(parseServerAddress(input, 6742)).toEqual(expected);
+    });
+  });
+
+  it('brackets IPv6 literals when formatting', () => {
+    expect(formatServerAddress('::1', 6742)).toBe('[::1]:6742');
+    expect(formatServerAddress('10.0.0.5', 6742)).toBe('10.0.0.5:6742');
+  });
+
+  it('uses literals without a DNS lookup', async () => {
+    const addresses = await resolveServerAddresses('::1', 6742);
+
+    expect(addresses.map((address: any) => address.get_address().to_string())).toEqual(['::1']);
+  });
+
+  it('resolves hostnames through the GIO resolver', async () => {
+    network.dns.localhost = ['::1', '127.0.0.1'];
+
+    const addresses = await resolveServerAddresses('localhost', 6742);
+
+    expect(addresses.map((address: any) => address.get_address().to_string())).toEqual([
+      '::1',
+      '127.0.0.1',
+    ]);
+  });
+
+  it('reports unresolvable hosts', async () => {
+    await expect(resolveServerAddresses('nowhere.invalid', 6742)).rejects.toThrow(
+      'Could not resolve host "nowhere.invalid"',
+    );
+  });
+
+  it('tries every resolved address in order and reports the one that connected', async () => {
+    network.dns.localhost = ['::1', '127.0.0.1'];
+    network.reachable.add('127.0.0.1');
+
+    const { address } = await connectToServer('localhost', 6742);
+
+    expect(network.attempts).toEqual(['::1', '127.0.0.1']);
+    expect(address).toBe('127.0.0.1:6742');
+  });
+
+  it('lists every failed address when none connects', async () => {
+    network.dns['rgb.lan'] = ['fd00::2', '10.0.0.5'];
+
+    await expect(connectToServer('rgb.lan', 6742)).rejects.toThrow(
+      'Could not connect to rgb.lan:6742 ([fd00::2]:6742: Connection refused; 10.0.0.5:6742: Connection refused)',
+    );
+  });
+});
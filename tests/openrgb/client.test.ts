@@ -1,10 +1,14 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { OpenRGBClient } from '../../src/openrgb/client.js';
+import { DEVICE_QUIRKS } from '../../src/openrgb/constants.js';
+import { DeviceType } from '../../src/openrgb/enums.js';
+import { gioPlatform } from '../../src/openrgb/gio-transport.js';
 
 // Mock the NetworkClient since it depends on GJS/GTK
 vi.mock('../../src/openrgb/network.js', () => {
   return {
-    NetworkClient: vi.fn().mockImplementation((address, port, name) => ({
+    NetworkClient: vi.fn().mockImplementation((platform, address, port, name) => ({
+      platform,
       address,
       port,
       name,
@@ -20,15 +24,23 @@ vi.mock('../../src/openrgb/network.js', () => {
         serial: '12345',
         location: 'Test Location',
         modes: [
-          { name: 'Direct', value: 0 },
-          { name: 'Static', value: 1 },
+          { name: 'Direct', value: 0, flags: 0x20 },
+          { name: 'Static', value: 1, flags: 0x140 },
         ],
         zones: [{ name: 'Zone 1', ledsCount: 10 }],
         leds: Array.from({ length: 10 }, (_, i) => ({ name: `LED ${i}` })),
         colors: Array.from({ length: 10 }, () => ({ r: 255, g: 0, b: 0, a: 255 })),
       })),
       updateLeds: vi.fn().mockResolvedValue(undefined),
+      updateLedsBatch: vi.fn().mockResolvedValue(undefined),
+      updateZoneLeds: vi.fn().mockResolvedValue(undefined),
+      saveMode: vi.fn().mockResolvedValue(undefined),
+      getProfileList: vi.fn().mockResolvedValue(['Gaming', 'Night']),
+      saveProfile: vi.fn().mockResolvedValue(undefined),
+      loadProfile: vi.fn().mockResolvedValue(undefined),
+      deleteProfile: vi.fn().mockResolvedValue(undefined),
       setDeviceMode: vi.fn().mockResolvedValue(undefined),
+      on: vi.fn(),
     })),
   };
 });
@@ -41,12 +53,12 @@ describe('OpenRGBClient', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    client = new OpenRGBClient(mockAddress, mockPort, mockName);
+    client = new OpenRGBClient(gioPlatform, mockAddress, mockPort, mockName);
   });
 
   describe('constructor', () => {
     it('should initialize with default values', () => {
-      const defaultClient = new OpenRGBClient() as any;
+      const defaultClient = new OpenRGBClient(gioPlatform) as any;
       expect(defaultClient).toBeDefined();
       // Check that it was created with defaults by checking internal state
       expect(defaultClient.connected).toBe(false);
@@ -64,7 +76,12 @@ describe('OpenRGBClient', () => {
     it('should accept settings parameter', () => {
       const _settings = { timeout: 5000 };
       // Note: settings parameter might not be supported in current implementation
-      const clientWithSettings = new OpenRGBClient(mockAddress, mockPort, mockName) as any;
+      const clientWithSettings = new OpenRGBClient(
+        gioPlatform,
+        mockAddress,
+        mockPort,
+        mockName,
+      ) as any;
       expect(clientWithSettings).toBeDefined();
       // Test would need to be updated if settings parameter is implemented
     });
@@ -78,7 +95,7 @@ describe('OpenRGBClient', () => {
     });
 
     it('should handle connection errors', async () => {
-      const errorClient = new OpenRGBClient() as any;
+      const errorClient = new OpenRGBClient(gioPlatform) as any;
       errorClient.networkClient.connect = vi.fn().mockRejectedValue(new Error('Connection failed'));
 
       await expect(errorClient.connect()).rejects.toThrow('Connection failed');
@@ -131,6 +148,31 @@ describe('OpenRGBClient', () => {
       expect(hexRe.test(client.devices[1].stableId)).toBe(true);
     });
 
+    it('should expose the device type and vendor', async () => {
+      client.networkClient.getControllerData = vi.fn().mockImplementation((index: number) => ({
+        name: `Test Device ${index}`,
+        type: index === 0 ? DeviceType.GPU : DeviceType.DRAM,
+        vendor: 'ACME',
+        modes: [{ name: 'Direct', value: 0 }],
+        zones: [],
+        leds: [],
+        colors: [],
+      }));
+
+      const devices = await client.discoverDevices();
+
+      expect(devices.map((device: any) => device.type)).toEqual([DeviceType.GPU, DeviceType.DRAM]);
+      expect(devices[0].vendor).toBe('ACME');
+    });
+
+    it('should mark failed devices as an unknown type', async () => {
+      client.networkClient.getControllerData = vi.fn().mockRejectedValue(new Error('Device error'));
+
+      const devices = await client.discoverDevices();
+
+      expect(devices[0]).toMatchObject({ type: DeviceType.UNKNOWN, vendor: '' });
+    });
+
     it('should throw error when not connected', async () => {
       client.disconnect();
       await expect(client.discoverDevices()).rejects.toThrow(
@@ -200,6 +242,93 @@ describe('OpenRGBClient', () => {
       expect(devices[1].ledCount).toBe(0);
       expect(devices[1].data).toBeNull();
     });
+
+    it('should request every controller before the first reply arrives', async () => {
+      const replies: Array<(data: unknown) => void> = [];
+      const getControllerData = client.networkClient.getControllerData.getMockImplementation();
+      client.networkClient.getControllerData = vi.fn(
+        (index: number) =>
+          new Promise((resolve) => replies.push(() => resolve(getControllerData(index)))),
+      );
+
+      const discovery = client.discoverDevices();
+      await vi.waitFor(() => expect(replies).toHaveLength(2));
+      replies.forEach((reply) => reply(undefined));
+      const devices = await discovery;
+
+      expect(devices.map((device: any) => device.name)).toEqual(['Test Device 0', 'Test Device 1']);
+    });
+
+    it('should report progress as controller data arrives', async () => {
+      const onProgress = vi.fn();
+
+      await client.discoverDevices({ onProgress });
+
+      expect(onProgress.mock.calls).toEqual([
+        [0, 2],
+        [1, 2],
+        [2, 2],
+      ]);
+    });
+
+    it('should switch devices to direct mode without a settle pause', async () => {
+      await client.discoverDevices();
+
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledTimes(2);
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(
+        0,
+        0,
+        expect.objectContaining({ name: 'Direct' }),
+        0,
+      );
+    });
+
+    it('should pause after the mode switch for quirky controllers', async () => {
+      const quirks = DEVICE_QUIRKS.SLOW_MODE_SWITCH as string[];
+      quirks.push('device 1');
+      try {
+        await client.discoverDevices();
+      } finally {
+        quirks.pop();
+      }
+
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(
+        1,
+        0,
+        expect.anything(),
+        DEVICE_QUIRKS.MODE_SWITCH_SETTLE_TIME,
+      );
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(0, 0, expect.anything(), 0);
+    });
+
+    it('should only enumerate devices in read-only mode', async () => {
+      const devices = await client.discoverDevices({ readOnly: true });
+
+      expect(devices).toHaveLength(2);
+      expect(devices[0].stableId).toMatch(/^[0-9a-f]{16}$/);
+      expect(client.networkClient.registerClient).not.toHaveBeenCalled();
+      expect(client.networkClient.setDeviceMode).not.toHaveBeenCalled();
+    });
+
+    it('should leave added devices untouched after a read-only discovery', async () => {
+      await client.setAllDevicesColor({ r: 1, g: 2, b: 3, a: 255 });
+      await client.discoverDevices({ readOnly: true });
+      client.networkClient.updateLedsBatch.mockClear();
+      client.networkClient.getControllerCount = vi.fn().mockResolvedValue(3);
+
+      const changes = await client.refreshDevices();
+
+      expect(changes.added).toHaveLength(1);
+      expect(client.networkClient.setDeviceMode).not.toHaveBeenCalled();
+      expect(client.networkClient.updateLedsBatch).not.toHaveBeenCalled();
+    });
+
+    it('should leave device modes alone when the mode switch is disabled', async () => {
+      const devices = await client.discoverDevices({ setDirectMode: false });
+
+      expect(devices).toHaveLength(2);
+      expect(client.networkClient.setDeviceMode).not.toHaveBeenCalled();
+    });
   });
 
   describe('device management', () => {
@@ -237,16 +366,424 @@ describe('OpenRGBClient', () => {
     });
   });
 
+  describe('batched color updates', () => {
+    beforeEach(async () => {
+      await client.connect();
+      await client.discoverDevices();
+    });
+
+    it('should paint every device with a single batched write', async () => {
+      const color = { r: 5, g: 6, b: 7, a: 255 };
+      const devices = client.getDevices();
+
+      const results = await client.setAllDevicesColor(color);
+
+      expect(client.networkClient.updateLedsBatch).toHaveBeenCalledTimes(1);
+      expect(client.networkClient.updateLedsBatch).toHaveBeenCalledWith(
+        devices.map((device: any) => ({
+          deviceId: device.ephemeralId,
+          color,
+          ledCount: device.ledCount,
+        })),
+      );
+      expect(client.networkClient.updateLeds).not.toHaveBeenCalled();
+      expect(results.every((result: any) => result.success)).toBe(true);
+    });
+
+    it('should report every device as failed when the batch fails', async () => {
+      client.networkClient.updateLedsBatch.mockRejectedValueOnce(new Error('Broken pipe'));
+
+      const results = await client.setAllDevicesColor({ r: 5, g: 6, b: 7, a: 255 });
+
+      expect(results).toHaveLength(2);
+      expect(results.every((result: any) => result.error === 'Broken pipe')).toBe(true);
+    });
+  });
+
+  describe('zone updates', () => {
+    beforeEach(async () => {
+      await client.connect();
+      await client.discoverDevices();
+    });
+
+    it('should fill the zone with one color per LED', async () => {
+      const device = client.getDevices()[0];
+      const color = { r: 0, g: 128, b: 255, a: 255 };
+
+      await client.setZoneColor(device.stableId, 0, color);
+
+      expect(client.networkClient.updateZoneLeds).toHaveBeenCalledWith(
+        device.ephemeralId,
+        0,
+        Array.from({ length: 10 }, () => color),
+      );
+      expect(client.networkClient.updateLeds).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown devices and zones', async () => {
+      const device = client.getDevices()[0];
+      const color = { r: 1, g: 2, b: 3, a: 255 };
+
+      await expect(client.setZoneColor('missing', 0, color)).rejects.toThrow('Unknown device');
+      await expect(client.setZoneColor(device.stableId, 3, color)).rejects.toThrow('has no zone 3');
+      expect(client.networkClient.updateZoneLeds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('per-LED updates', () => {
+    beforeEach(async () => {
+      await client.connect();
+      await client.discoverDevices();
+    });
+
+    it('should send one validated color per LED', async () => {
+      const device = client.getDevices()[0];
+      const gradient = Array.from({ length: 10 }, (_, i) => ({ r: i * 30, g: 0, b: 300, a: 255 }));
+
+      await client.setDeviceLeds(device.stableId, gradient);
+
+      const [, sentColors] = client.networkClient.updateLeds.mock.calls[0];
+      expect(sentColors).toHaveLength(10);
+      expect(sentColors[3]).toEqual({ r: 90, g: 0, b: 255, a: 255 });
+    });
+
+    it('should reject color arrays that do not match the LED count', async () => {
+      const device = client.getDevices()[0];
+      const colors = [{ r: 1, g: 2, b: 3, a: 255 }];
+
+      await expect(client.setDeviceLeds(device.stableId, colors)).rejects.toThrow(
+        'has 10 LEDs but 1 colors were given',
+      );
+      expect(client.networkClient.updateLeds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mode updates', () => {
+    const breathing = {
+      name: 'Breathing',
+      value: 2,
+      flags: 0x41,
+      speedMin: 10,
+      speedMax: 1,
+      colorsMin: 1,
+      colorsMax: 2,
+      speed: 5,
+      direction: 0,
+      colorMode: 2,
+      colors: [{ r: 255, g: 0, b: 0, a: 255 }],
+    };
+
+    beforeEach(async () => {
+      await client.connect();
+      await client.discoverDevices();
+      client.getDevices()[0].data.modes.push(breathing);
+      client.networkClient.setDeviceMode.mockClear();
+    });
+
+    it('should send the full mode with overrides applied', async () => {
+      const device = client.getDevices()[0];
+      const colors = [
+        { r: 0, g: 0, b: 255, a: 255 },
+        { r: 0, g: 255, b: 0, a: 255 },
+      ];
+
+      const mode = await client.setMode(device.stableId, 2, { speed: 3, direction: 1, colors });
+
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(device.ephemeralId, 2, mode);
+      expect(mode).toMatchObject({ name: 'Breathing', speed: 3, direction: 1, colors });
+      expect(device.data.activeMode).toBe(2);
+      expect(device.data.modes[2]).toBe(mode);
+    });
+
+    it('should clamp speed to the mode range even when it is inverted', async () => {
+      const device = client.getDevices()[0];
+
+      const mode = await client.setMode(device.stableId, 2, { speed: 50 });
+
+      expect(mode.speed).toBe(10);
+    });
+
+    it('should reject unknown modes and out-of-range color counts', async () => {
+      const device = client.getDevices()[0];
+
+      await expect(client.setMode(device.stableId, 9)).rejects.toThrow('has no mode 9');
+      await expect(client.setMode(device.stableId, 2, { colors: [] })).rejects.toThrow(
+        'accepts 1-2 colors, got 0',
+      );
+      expect(client.networkClient.setDeviceMode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saving to onboard memory', () => {
+    const staticMode = {
+      name: 'Static',
+      value: 1,
+      flags: 0x140,
+      speedMin: 0,
+      speedMax: 0,
+      colorsMin: 1,
+      colorsMax: 1,
+      speed: 0,
+      direction: 0,
+      colorMode: 2,
+      colors: [{ r: 255, g: 0, b: 0, a: 255 }],
+    };
+
+    beforeEach(async () => {
+      await client.connect();
+      await client.discoverDevices();
+      client.getDevices()[0].data.modes[1] = { ...staticMode };
+      client.networkClient.setDeviceMode.mockClear();
+    });
+
+    it('should detect the static mode during discovery', () => {
+      expect(client.getDevices()[0].staticModeIndex).toBe(1);
+    });
+
+    it('should write the color into the static mode, save it and return to direct mode', async () => {
+      const device = client.getDevices()[0];
+      const color = { r: 53, g: 132, b: 228, a: 255 };
+
+      await client.saveColorToDevice(device.stableId, color);
+
+      const { setDeviceMode, saveMode } = client.networkClient;
+      expect(setDeviceMode).toHaveBeenNthCalledWith(
+        1,
+        device.ephemeralId,
+        1,
+        expect.objectContaining({ name: 'Static', colors: [color] }),
+      );
+      expect(saveMode).toHaveBeenCalledWith(
+        device.ephemeralId,
+        1,
+        expect.objectContaining({ colors: [color] }),
+      );
+      expect(setDeviceMode).toHaveBeenLastCalledWith(
+        device.ephemeralId,
+        0,
+        expect.objectContaining({ name: 'Direct' }),
+        0,
+      );
+    });
+
+    it('should paint the LEDs when the static mode uses per-LED colors', async () => {
+      const device = client.getDevices()[0];
+      device.data.modes[1] = { ...staticMode, colorMode: 1, colorsMin: 0, colorsMax: 0 };
+      const color = { r: 1, g: 2, b: 3, a: 255 };
+
+      await client.saveColorToDevice(device.stableId, color);
+
+      expect(client.networkClient.updateLeds).toHaveBeenCalledWith(
+        device.ephemeralId,
+        color,
+        device.ledCount,
+      );
+      expect(client.networkClient.saveMode).toHaveBeenCalled();
+    });
+
+    it('should refuse devices without a static mode', async () => {
+      const device = client.getDevices()[0];
+      device.staticModeIndex = null;
+
+      await expect(
+        client.saveColorToDevice(device.stableId, { r: 0, g: 0, b: 0, a: 255 }),
+      ).rejects.toThrow('has no static mode');
+      expect(client.networkClient.saveMode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('connection loss', () => {
+    it('should mark the client disconnected and re-emit the error', async () => {
+      await client.connect();
+      const disconnected = vi.fn();
+      client.on('disconnected', disconnected);
+
+      const [, onDisconnected] = client.networkClient.on.mock.calls.find(
+        ([event]: [string]) => event === 'disconnected',
+      );
+      const error = new Error('Connection closed by server');
+      onDisconnected(error);
+
+      expect(client.connected).toBe(false);
+      expect(disconnected).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('profiles', () => {
+    it('should require a connection', async () => {
+      await expect(client.getProfiles()).rejects.toThrow('not connected');
+      await expect(client.loadProfile('Gaming')).rejects.toThrow('not connected');
+    });
+
+    it('should forward profile operations to the network client', async () => {
+      await client.connect();
+
+      await expect(client.getProfiles()).resolves.toEqual(['Gaming', 'Night']);
+      await client.saveProfile('Work');
+      await client.loadProfile('Gaming');
+      await client.deleteProfile('Night');
+
+      expect(client.networkClient.saveProfile).toHaveBeenCalledWith('Work');
+      expect(client.networkClient.loadProfile).toHaveBeenCalledWith('Gaming');
+      expect(client.networkClient.deleteProfile).toHaveBeenCalledWith('Night');
+    });
+  });
+
+  describe('device list updates', () => {
+    const deviceData = (name: string, serial: string) => ({
+      name,
+      serial,
+      location: 'Test Location',
+      modes: [{ name: 'Direct', value: 0 }],
+      zones: [],
+      leds: Array.from({ length: 4 }, (_, i) => ({ name: `LED ${i}` })),
+      colors: [],
+    });
+
+    beforeEach(async () => {
+      await client.connect();
+      client.networkClient.getControllerCount = vi.fn().mockResolvedValue(2);
+      client.networkClient.getControllerData = vi
+        .fn()
+        .mockImplementation((index: number) =>
+          index === 0 ? deviceData('Keyboard', 'KB1') : deviceData('Mouse', 'MS1'),
+        );
+      await client.discoverDevices();
+    });
+
+    it('should subscribe to device list notifications', () => {
+      expect(client.networkClient.on).toHaveBeenCalledWith(
+        'deviceListUpdated',
+        expect.any(Function),
+      );
+    });
+
+    it('should reconcile devices by stableId and emit added/removed events', async () => {
+      const [keyboard, mouse] = client.getDevices();
+      const added = vi.fn();
+      const removed = vi.fn();
+      client.on('devicesAdded', added);
+      client.on('devicesRemoved', removed);
+
+      // Mouse unplugged, headset plugged in; keyboard moves to index 1
+      client.networkClient.getControllerData = vi
+        .fn()
+        .mockImplementation((index: number) =>
+          index === 0 ? deviceData('Headset', 'HS1') : deviceData('Keyboard', 'KB1'),
+        );
+
+      const changes = await client.refreshDevices();
+
+      expect(changes.added.map((d: any) => d.name)).toEqual(['Headset']);
+      expect(changes.removed).toEqual([mouse]);
+      expect(added).toHaveBeenCalledWith(changes.added);
+      expect(removed).toHaveBeenCalledWith([mouse]);
+
+      const refreshedKeyboard = client.getDevices().find((d: any) => d.name === 'Keyboard');
+      expect(refreshedKeyboard.stableId).toBe(keyboard.stableId);
+      expect(refreshedKeyboard.ephemeralId).toBe(1);
+    });
+
+    it('should re-apply the last color to added devices only', async () => {
+      const color = { r: 10, g: 20, b: 30, a: 255 };
+      await client.setAllDevicesColor(color);
+      client.networkClient.updateLedsBatch.mockClear();
+      client.networkClient.setDeviceMode.mockClear();
+
+      client.networkClient.getControllerCount = vi.fn().mockResolvedValue(3);
+      client.networkClient.getControllerData = vi.fn().mockImplementation((index: number) => {
+        if (index === 2) return deviceData('Headset', 'HS1');
+        return index === 0 ? deviceData('Keyboard', 'KB1') : deviceData('Mouse', 'MS1');
+      });
+
+      await client.refreshDevices();
+
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledTimes(1);
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(
+        2,
+        0,
+        expect.objectContaining({ name: 'Direct' }),
+        0,
+      );
+      expect(client.networkClient.updateLedsBatch).toHaveBeenCalledTimes(1);
+      expect(client.networkClient.updateLedsBatch).toHaveBeenCalledWith([
+        { deviceId: 2, color, ledCount: 4 },
+      ]);
+    });
+
+    it('should skip added devices rejected by the device filter', async () => {
+      await client.setAllDevicesColor({ r: 1, g: 2, b: 3, a: 255 });
+      client.networkClient.updateLedsBatch.mockClear();
+      client.setDeviceFilter((device: any) => device.name !== 'Headset');
+
+      client.networkClient.getControllerCount = vi.fn().mockResolvedValue(3);
+      client.networkClient.getControllerData = vi.fn().mockImplementation((index: number) => {
+        if (index === 2) return deviceData('Headset', 'HS1');
+        return index === 0 ? deviceData('Keyboard', 'KB1') : deviceData('Mouse', 'MS1');
+      });
+
+      client.networkClient.setDeviceMode.mockClear();
+      const changes = await client.refreshDevices();
+
+      expect(changes.added).toHaveLength(1);
+      expect(client.networkClient.updateLedsBatch).not.toHaveBeenCalled();
+      expect(client.networkClient.setDeviceMode).not.toHaveBeenCalled();
+    });
+
+    it('should pause after switching a slow controller into direct mode', async () => {
+      client.setSlowModeSwitchDevices([' KEYBOARD ', '']);
+      client.networkClient.setDeviceMode.mockClear();
+
+      await client.discoverDevices();
+
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(
+        0,
+        0,
+        expect.objectContaining({ name: 'Direct' }),
+        DEVICE_QUIRKS.MODE_SWITCH_SETTLE_TIME,
+      );
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledWith(
+        1,
+        0,
+        expect.objectContaining({ name: 'Direct' }),
+        0,
+      );
+    });
+
+    it('should leave added devices in their mode when discovery did', async () => {
+      await client.discoverDevices({ setDirectMode: false });
+      const color = { r: 1, g: 2, b: 3, a: 255 };
+      await client.setAllDevicesColor(color, true);
+      client.networkClient.setDeviceMode.mockClear();
+      client.networkClient.updateLedsBatch.mockClear();
+
+      client.networkClient.getControllerCount = vi.fn().mockResolvedValue(3);
+      client.networkClient.getControllerData = vi.fn().mockImplementation((index: number) => {
+        if (index === 2) return deviceData('Headset', 'HS1');
+        return index === 0 ? deviceData('Keyboard', 'KB1') : deviceData('Mouse', 'MS1');
+      });
+
+      await client.refreshDevices();
+
+      // Only the switch set-direct-mode-on-update makes before painting
+      expect(client.networkClient.setDeviceMode).toHaveBeenCalledTimes(1);
+      expect(client.networkClient.updateLedsBatch).toHaveBeenCalledWith([
+        { deviceId: 2, color, ledCount: 4 },
+      ]);
+    });
+  });
+
   describe('network client integration', () => {
     it('should pass correct parameters to NetworkClient', () => {
-      const testClient = new OpenRGBClient('10.0.0.1', 1234, 'Custom Name');
+      const testClient = new OpenRGBClient(gioPlatform, '10.0.0.1', 1234, 'Custom Name');
+      expect((testClient as any).networkClient.platform).toBe(gioPlatform);
       expect((testClient as any).networkClient.address).toBe('10.0.0.1');
       expect((testClient as any).networkClient.port).toBe(1234);
       expect((testClient as any).networkClient.name).toBe('Custom Name');
     });
 
     it('should use default NetworkClient parameters', () => {
-      const defaultClient = new OpenRGBClient();
+      const defaultClient = new OpenRGBClient(gioPlatform);
       expect((defaultClient as any).networkClient.address).toBe('127.0.0.1');
       expect((defaultClient as any).networkClient.port).toBe(6742);
       expect((defaultClient as any).networkClient.name).toBe('GNOME-OpenRGB-AccentSync');
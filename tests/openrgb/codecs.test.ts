@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeReply,
+  decodeRequest,
+  encodeFrame,
+  encodeReply,
+  encodeRequest,
+  PACKET_CODECS,
+  PACKET_MAGIC,
+  readPacketHeader,
+} from '../../src/openrgb/codecs.js';
+import { DeviceData } from '../../src/openrgb/device.js';
+import { DeviceType, PacketType, ZoneType } from '../../src/openrgb/enums.js';
+import { OpenRGBProtocolError } from '../../src/openrgb/errors.js';
+import type { DeviceMode } from '../../src/openrgb/types.js';
+
+const mode: DeviceMode = {
+  name: 'Static',
+  value: 1,
+  flags: 0x140,
+  speedMin: 0,
+  speedMax: 0,
+  brightnessMin: 0,
+  brightnessMax: 100,
+  colorsMin: 1,
+  colorsMax: 1,
+  speed: 0,
+  brightness: 80,
+  direction: 0,
+  colorMode: 2,
+  colors: [{ r: 1, g: 2, b: 3, a: 0 }],
+};
+
+const colors = [
+  { r: 255, g: 0, b: 0, a: 0 },
+  { r: 0, g: 128, b: 255, a: 0 },
+];
+
+function createDevice(): DeviceData {
+  const device = new DeviceData();
+  device.type = DeviceType.KEYBOARD;
+  device.name = 'Keyboard';
+  device.vendor = 'Vendor';
+  device.description = 'Desc';
+  device.version = '1.0';
+  device.serial = 'SN1';
+  device.location = 'HID';
+  device.activeMode = 0;
+  device.modes = [mode];
+  device.zones = [
+    {
+      name: 'Keys',
+      type: ZoneType.MATRIX,
+      ledsMin: 3,
+      ledsMax: 3,
+      ledsCount: 3,
+      matrixHeight: 2,
+      matrixWidth: 2,
+      matrixMap: [
+        [0, 0xffffffff],
+        [1, 2],
+      ],
+      segments: [{ name: 'Left', type: 1, startIndex: 0, ledsCount: 2 }],
+      flags: 7,
+    },
+  ];
+  device.leds = [0, 1, 2].map((i) => ({ name: `LED ${i}`, value: i }));
+  device.colors = [...colors, { r: 0, g: 0, b: 0, a: 0 }];
+  device.ledAltNames = ['Esc'];
+  device.flags = 1;
+  return device;
+}
+
+describe('packet codecs', () => {
+  it('should define a codec for every packet type', () => {
+    const packetTypes = Object.values(PacketType).filter((value) => typeof value === 'number');
+
+    expect(Object.keys(PACKET_CODECS).map(Number).sort()).toEqual(packetTypes.sort());
+  });
+
+  describe('requests', () => {
+    it.each([
+      [PacketType.REQUEST_CONTROLLER_COUNT, undefined],
+      [PacketType.REQUEST_CONTROLLER_DATA, 4],
+      [PacketType.REQUEST_CONTROLLER_DATA, 0],
+      [PacketType.REQUEST_PROTOCOL_VERSION, 5],
+      [PacketType.RGBCONTROLLER_UPDATELEDS, colors],
+      [PacketType.RGBCONTROLLER_UPDATEZONELEDS, { zoneIndex: 2, colors }],
+      [PacketType.RGBCONTROLLER_UPDATEMODE, { modeIndex: 1, mode }],
+      [PacketType.RGBCONTROLLER_SAVEMODE, { modeIndex: 1, mode }],
+      [PacketType.SET_CLIENT_NAME, 'GNOME Accent Sync'],
+      [PacketType.DEVICE_LIST_UPDATED, undefined],
+      [PacketType.REQUEST_PROFILE_LIST, undefined],
+      [PacketType.REQUEST_SAVE_PROFILE, 'Blue'],
+      [PacketType.REQUEST_LOAD_PROFILE, 'Blue'],
+      [PacketType.REQUEST_DELETE_PROFILE, 'Blue'],
+    ] as const)('should round-trip packet %i', (packetType, value) => {
+      const data = encodeRequest(packetType, value as never, 3);
+
+      expect(decodeRequest(packetType, data, 3)).toEqual(value);
+    });
+
+    it('should send an empty controller data request to unversioned servers', () => {
+      expect(encodeRequest(PacketType.REQUEST_CONTROLLER_DATA, 0).byteLength).toBe(0);
+    });
+
+    it('should prefix LED updates with their data size and color count', () => {
+      const data = encodeRequest(PacketType.RGBCONTROLLER_UPDATELEDS, colors);
+      const view = new DataView(data);
+
+      expect(data.byteLength).toBe(6 + colors.length * 4);
+      expect(view.getUint32(0, true)).toBe(data.byteLength);
+      expect(view.getUint16(4, true)).toBe(colors.length);
+    });
+
+    it('should clamp colors while encoding', () => {
+      const data = encodeRequest(PacketType.RGBCONTROLLER_UPDATELEDS, [
+        { r: 300, g: -5, b: 12.7, a: 255 },
+      ]);
+
+      expect(decodeRequest(PacketType.RGBCONTROLLER_UPDATELEDS, data)).toEqual([
+        { r: 255, g: 0, b: 12, a: 0 },
+      ]);
+    });
+
+    it('should terminate profile names without a length prefix', () => {
+      const data = encodeRequest(PacketType.REQUEST_LOAD_PROFILE, 'Blue');
+
+      expect(Array.from(new Uint8Array(data))).toEqual([0x42, 0x6c, 0x75, 0x65, 0]);
+    });
+  });
+
+  describe('replies', () => {
+    it.each([
+      [PacketType.REQUEST_CONTROLLER_COUNT, 3],
+      [PacketType.REQUEST_PROTOCOL_VERSION, 4],
+      [PacketType.REQUEST_PROFILE_LIST, ['Blue', 'Red']],
+      [PacketType.REQUEST_PROFILE_LIST, []],
+    ] as const)('should round-trip the reply to packet %i', (packetType, value) => {
+      const data = encodeReply(packetType, value as never);
+
+      expect(decodeReply(packetType, data)).toEqual(value);
+    });
+
+    it.each([0, 1, 2, 3, 4, 5])('should round-trip controller data at protocol %i', (version) => {
+      const data = encodeReply(PacketType.REQUEST_CONTROLLER_DATA, createDevice(), version);
+      const decoded = decodeReply(PacketType.REQUEST_CONTROLLER_DATA, data, version);
+
+      expect(encodeReply(PacketType.REQUEST_CONTROLLER_DATA, decoded, version)).toEqual(data);
+      if (version === 5) {
+        expect(decoded).toEqual(createDevice());
+      }
+    });
+
+    it('should reject short numeric replies', () => {
+      expect(() => decodeReply(PacketType.REQUEST_CONTROLLER_COUNT, new ArrayBuffer(2))).toThrow(
+        OpenRGBProtocolError,
+      );
+      expect(() => decodeReply(PacketType.REQUEST_PROTOCOL_VERSION, new ArrayBuffer(0))).toThrow(
+        'Invalid protocol version response',
+      );
+    });
+
+    it('should reject packets that have no reply', () => {
+      expect(() => encodeReply(PacketType.RGBCONTROLLER_UPDATELEDS as never, [] as never)).toThrow(
+        'Packet 1050 has no reply',
+      );
+    });
+  });
+
+  describe('frames', () => {
+    it('should round-trip a header', () => {
+      const payload = encodeRequest(PacketType.RGBCONTROLLER_UPDATEZONELEDS, {
+        zoneIndex: 0,
+        colors,
+      });
+      const frame = encodeFrame(7, PacketType.RGBCONTROLLER_UPDATEZONELEDS, payload);
+
+      expect(Array.from(frame.subarray(0, 4))).toEqual(PACKET_MAGIC);
+      expect(readPacketHeader(frame)).toEqual({
+        deviceId: 7,
+        packetType: PacketType.RGBCONTROLLER_UPDATEZONELEDS,
+        dataSize: payload.byteLength,
+      });
+      expect(frame.slice(16).buffer).toEqual(payload);
+    });
+
+    it('should reject frames without the magic', () => {
+      const frame = encodeFrame(0, PacketType.REQUEST_CONTROLLER_COUNT);
+      frame[0] = 0;
+
+      expect(() => readPacketHeader(frame)).toThrow('Invalid packet magic');
+    });
+
+    it('should reject oversized packets', () => {
+      const frame = encodeFrame(0, PacketType.REQUEST_CONTROLLER_COUNT);
+      new DataView(frame.buffer).setUint32(12, 0xffffffff, true);
+
+      expect(() => readPacketHeader(frame)).toThrow('exceeds maximum packet size');
+    });
+  });
+});
@@ -7,7 +7,8 @@ describe('PacketType Constants', () => {
       expect(PacketType.REQUEST_CONTROLLER_COUNT).toBe(0);
       expect(PacketType.REQUEST_CONTROLLER_DATA).toBe(1);
       expect(PacketType.RGBCONTROLLER_UPDATELEDS).toBe(1050);
-      expect(PacketType.RGBCONTROLLER_UPDATEMODE).toBe(1054);
+      expect(PacketType.RGBCONTROLLER_UPDATEMODE).toBe(1101);
+      expect(PacketType.RGBCONTROLLER_SAVEMODE).toBe(1102);
       expect(PacketType.SET_CLIENT_NAME).toBe(50);
     });
 
@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, it } from 'vitest';
+import { VALIDATION } from '../../src/openrgb/constants.js';
 import { DeviceData } from '../../src/openrgb/device.js';
+import { DeviceType } from '../../src/openrgb/enums.js';
+import { OpenRGBParseError } from '../../src/openrgb/errors.js';
+import { BinaryParser } from '../../src/openrgb/parser.js';
 
 describe('DeviceData', () => {
   let deviceData: any;
@@ -27,30 +31,49 @@ describe('DeviceData', () => {
       expect(typeof DeviceData.parse).toBe('function');
     });
 
-    it('should return DeviceData instance when given invalid data', () => {
+    it('should start out as an unknown device type', () => {
+      expect(new DeviceData().type).toBe(DeviceType.UNKNOWN);
+    });
+
+    it('should throw OpenRGBParseError when given invalid data', () => {
       // Test with empty buffer
       const emptyBuffer = new ArrayBuffer(0);
-      const result = DeviceData.parse(emptyBuffer);
 
-      expect(result).toBeInstanceOf(DeviceData);
-      expect((result as any).name).toBe('');
-      expect((result as any).description).toBe('');
-      expect((result as any).version).toBe('');
-      expect((result as any).serial).toBe('');
-      expect((result as any).location).toBe('');
+      expect(() => DeviceData.parse(emptyBuffer)).toThrow(OpenRGBParseError);
     });
 
-    it('should handle parsing errors gracefully', () => {
+    it('should reject a buffer shorter than its declared size', () => {
       // Create a buffer with insufficient data
       const buffer = new ArrayBuffer(4);
       const view = new DataView(buffer);
       view.setUint32(0, 100, true); // Data size larger than actual buffer
 
-      // Should not throw, but return a DeviceData instance
-      expect(() => {
-        const result = DeviceData.parse(buffer);
-        expect(result).toBeInstanceOf(DeviceData);
-      }).not.toThrow();
+      expect(() => DeviceData.parse(buffer)).toThrow(
+        'Device data claims 100 bytes, buffer size: 4',
+      );
+    });
+
+    it('should report the offset and buffer size of a truncated device', () => {
+      const full = createVersionedDeviceDataBuffer(3);
+      const truncated = full.slice(0, 40);
+      new DataView(truncated).setUint32(0, 40, true);
+
+      try {
+        DeviceData.parse(truncated, 3);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(OpenRGBParseError);
+        expect((error as OpenRGBParseError).bufferSize).toBe(40);
+        expect((error as OpenRGBParseError).offset).toBeLessThanOrEqual(40);
+      }
+    });
+
+    it('should reject LED counts above the validation limit', () => {
+      const buffer = createMinimalDeviceDataBuffer();
+      // LED count field follows the name strings, mode/zone counts and active mode
+      new DataView(buffer).setUint16(26, VALIDATION.MAX_LEDS_PER_DEVICE + 1, true);
+
+      expect(() => DeviceData.parse(buffer)).toThrow(/LED count \d+ at offset 26 exceeds limit/);
     });
 
     it('should parse a well-formed device data buffer', () => {
@@ -91,6 +114,203 @@ describe('DeviceData', () => {
     });
   });
 
+  describe('protocol versions', () => {
+    it.each([0, 1, 2, 3, 4, 5])('should parse a protocol %i controller layout', (version) => {
+      const result = DeviceData.parse(createVersionedDeviceDataBuffer(version), version);
+
+      expect(result.type).toBe(DeviceType.KEYBOARD);
+      expect(result.name).toBe('Keyboard');
+      expect(result.vendor).toBe(version >= 1 ? 'Vendor' : '');
+      expect(result.description).toBe('Desc');
+      expect(result.version).toBe('1.0');
+      expect(result.serial).toBe('SN1');
+      expect(result.location).toBe('HID');
+      expect(result.activeMode).toBe(1);
+
+      expect(result.modes).toHaveLength(2);
+      expect(result.modes[1]).toMatchObject({
+        name: 'Static',
+        value: 1,
+        flags: 0x40,
+        speedMin: 1,
+        speedMax: 4,
+        colorsMin: 1,
+        colorsMax: 1,
+        speed: 2,
+        direction: 0,
+        colorMode: 2,
+        colors: [{ r: 1, g: 2, b: 3, a: 0 }],
+      });
+      if (version >= 3) {
+        expect(result.modes[1]).toMatchObject({
+          brightnessMin: 0,
+          brightnessMax: 100,
+          brightness: 80,
+        });
+      } else {
+        expect(result.modes[1]).not.toHaveProperty('brightness');
+      }
+
+      expect(result.zones).toHaveLength(1);
+      expect(result.zones[0]).toMatchObject({ name: 'Main', type: 1, ledsCount: 3 });
+      if (version >= 4) {
+        expect(result.zones[0]?.segments).toEqual([
+          { name: 'Left', type: 1, startIndex: 0, ledsCount: 2 },
+        ]);
+      } else {
+        expect(result.zones[0]).not.toHaveProperty('segments');
+      }
+      if (version >= 5) {
+        expect(result.zones[0]?.flags).toBe(7);
+      } else {
+        expect(result.zones[0]).not.toHaveProperty('flags');
+      }
+
+      expect(result.leds.map((led) => led.name)).toEqual(['LED 0', 'LED 1', 'LED 2']);
+      expect(result.colors).toHaveLength(3);
+      expect(result.ledAltNames).toEqual(version >= 5 ? ['Esc'] : []);
+      expect(result.flags).toBe(version >= 5 ? 3 : 0);
+    });
+
+    it('should default to the unversioned layout', () => {
+      const result = DeviceData.parse(createVersionedDeviceDataBuffer(0));
+      expect(result.name).toBe('Keyboard');
+      expect(result.leds).toHaveLength(3);
+    });
+
+    it('should not read a versioned layout as protocol 0', () => {
+      // The vendor string shifts every later field, so the rest no longer lines up
+      expect(() => DeviceData.parse(createVersionedDeviceDataBuffer(1), 0)).toThrow(
+        OpenRGBParseError,
+      );
+    });
+  });
+
+  describe('matrix maps', () => {
+    const NO_LED = 0xffffffff;
+
+    it.each([0, 4, 5])('decodes the matrix map into rows at protocol %i', (version) => {
+      const map = [
+        [0, NO_LED],
+        [1, 2],
+      ];
+      const [zone] = DeviceData.parse(createVersionedDeviceDataBuffer(version, map), version).zones;
+
+      expect(zone?.matrixHeight).toBe(2);
+      expect(zone?.matrixWidth).toBe(2);
+      expect(zone?.matrixMap).toEqual(map);
+    });
+
+    it('leaves zones without a matrix unmapped', () => {
+      const [zone] = DeviceData.parse(createVersionedDeviceDataBuffer(3), 3).zones;
+      expect(zone?.matrixMap).toBeUndefined();
+    });
+
+    it('rejects a matrix length that does not match its dimensions', () => {
+      // A 2x3 header followed by only three cells (matrix length 20)
+      const data = new ArrayBuffer(20);
+      const view = new DataView(data);
+      view.setUint32(0, 2, true);
+      view.setUint32(4, 3, true);
+
+      expect(() => DeviceData.parseMatrixMap(new BinaryParser(data), 20)).toThrow(
+        'Matrix map of 20 bytes at offset 0 does not hold 2x3 cells',
+      );
+    });
+
+    it('rejects a matrix length too short for its dimensions', () => {
+      expect(() => DeviceData.parseMatrixMap(new BinaryParser(new ArrayBuffer(8)), 4)).toThrow(
+        'is too short',
+      );
+    });
+  });
+
+  describe('mode encoding', () => {
+    it.each([0, 1, 2, 3, 4, 5])('round-trips every mode at protocol %i', (version) => {
+      const device = DeviceData.parse(createVersionedDeviceDataBuffer(version), version);
+
+      device.modes.forEach((mode, index) => {
+        const payload = DeviceData.encodeModeUpdate(index, mode, version);
+        const parser = new BinaryParser(payload);
+
+        expect(parser.readUint32()).toBe(payload.byteLength);
+        expect(parser.readUint32()).toBe(index);
+        expect(DeviceData.parseMode(parser, version)).toEqual(mode);
+        expect(parser.hasMoreData()).toBe(false);
+      });
+    });
+
+    it('should round-trip changed speed, direction and colors', () => {
+      const [, staticMode] = DeviceData.parse(createVersionedDeviceDataBuffer(3), 3).modes;
+      const changed = {
+        ...staticMode!,
+        speed: 4,
+        brightness: 25,
+        direction: 2,
+        colors: [
+          { r: 9, g: 8, b: 7, a: 0 },
+          { r: 1, g: 1, b: 1, a: 0 },
+        ],
+      };
+
+      const parser = new BinaryParser(DeviceData.encodeModeUpdate(1, changed, 3), 8);
+      expect(DeviceData.parseMode(parser, 3)).toEqual(changed);
+    });
+
+    it('should omit brightness fields before protocol 3', () => {
+      const [mode] = DeviceData.parse(createVersionedDeviceDataBuffer(3), 3).modes;
+
+      const v2 = DeviceData.encodeModeUpdate(0, mode!, 2);
+      const v3 = DeviceData.encodeModeUpdate(0, mode!, 3);
+
+      expect(v3.byteLength - v2.byteLength).toBe(12);
+    });
+  });
+
+  describe('serialization', () => {
+    const map = [
+      [0, 0xffffffff],
+      [1, 2],
+    ];
+
+    it.each([0, 1, 2, 3, 4, 5])(
+      'reproduces the controller data bytes at protocol %i',
+      (version) => {
+        for (const data of [
+          createVersionedDeviceDataBuffer(version),
+          createVersionedDeviceDataBuffer(version, map),
+        ]) {
+          const serialized = DeviceData.serialize(DeviceData.parse(data, version), version);
+
+          expect(new Uint8Array(serialized)).toEqual(new Uint8Array(data));
+        }
+      },
+    );
+
+    it('should drop fields the target protocol does not carry', () => {
+      const device = DeviceData.parse(createVersionedDeviceDataBuffer(5, map), 5);
+
+      const downgraded = DeviceData.parse(DeviceData.serialize(device, 0), 0);
+
+      expect(downgraded.vendor).toBe('');
+      expect(downgraded.zones[0]?.segments).toBeUndefined();
+      expect(downgraded.zones[0]?.matrixMap).toEqual(map);
+      expect(downgraded.ledAltNames).toEqual([]);
+      expect(downgraded.colors).toEqual(device.colors);
+    });
+
+    it('should serialize a device built in code', () => {
+      const device = new DeviceData();
+      device.type = DeviceType.LEDSTRIP;
+      device.name = 'Strip';
+      device.zones = [{ name: 'Zone', type: 1, ledsMin: 0, ledsMax: 60, ledsCount: 0 }];
+
+      const parsed = DeviceData.parse(DeviceData.serialize(device, 3), 3);
+
+      expect(parsed).toEqual(device);
+    });
+  });
+
   describe('data structure validation', () => {
     it('should have correct property types after parsing', () => {
       const buffer = createMinimalDeviceDataBuffer();
@@ -256,3 +476,96 @@ function createDeviceDataWithComplexZones(): ArrayBuffer {
 function createDeviceDataWithComplexLeds(): ArrayBuffer {
   return createMinimalDeviceDataBuffer(); // For now, return minimal buffer
 }
+
+// Builds a controller data payload following the layout of the given protocol version
+function createVersionedDeviceDataBuffer(version: number, matrix?: number[][]): ArrayBuffer {
+  const bytes: number[] = [];
+  const u16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const u32 = (value: number) => {
+    u16(value & 0xffff);
+    u16((value >>> 16) & 0xffff);
+  };
+  const str = (value: string) => {
+    const encoded = new TextEncoder().encode(value);
+    u16(encoded.length);
+    bytes.push(...encoded);
+  };
+  const color = (r: number, g: number, b: number) => bytes.push(r, g, b, 0);
+
+  u32(0); // data size, patched below
+  u32(5); // device type
+  str('Keyboard');
+  if (version >= 1) str('Vendor');
+  str('Desc');
+  str('1.0');
+  str('SN1');
+  str('HID');
+
+  u16(2); // mode count
+  u32(1); // active mode
+  const modes = [
+    { name: 'Direct', value: 0, flags: 0x20, colorMode: 1, colors: [] as number[][] },
+    { name: 'Static', value: 1, flags: 0x40, colorMode: 2, colors: [[1, 2, 3]] },
+  ];
+  for (const mode of modes) {
+    str(mode.name);
+    u32(mode.value);
+    u32(mode.flags);
+    u32(1); // speed min
+    u32(4); // speed max
+    if (version >= 3) {
+      u32(0); // brightness min
+      u32(100); // brightness max
+    }
+    u32(1); // colors min
+    u32(1); // colors max
+    u32(2); // speed
+    if (version >= 3) u32(80); // brightness
+    u32(0); // direction
+    u32(mode.colorMode);
+    u16(mode.colors.length);
+    mode.colors.forEach(([r, g, b]) => color(r!, g!, b!));
+  }
+
+  u16(1); // zone count
+  str('Main');
+  u32(1); // zone type
+  u32(3); // leds min
+  u32(3); // leds max
+  u32(3); // leds count
+  if (matrix) {
+    u16(8 + matrix.length * (matrix[0]?.length ?? 0) * 4); // matrix length
+    u32(matrix.length); // height
+    u32(matrix[0]?.length ?? 0); // width
+    matrix.flat().forEach(u32);
+  } else {
+    u16(0); // matrix length
+  }
+  if (version >= 4) {
+    u16(1); // segment count
+    str('Left');
+    u32(1);
+    u32(0);
+    u32(2);
+  }
+  if (version >= 5) u32(7); // zone flags
+
+  u16(3); // led count
+  for (let i = 0; i < 3; i++) {
+    str(`LED ${i}`);
+    u32(i);
+  }
+
+  u16(3); // color count
+  for (let i = 0; i < 3; i++) color(255, 0, 0);
+
+  if (version >= 5) {
+    u16(1); // led alt name count
+    str('Esc');
+    u32(3); // controller flags
+  }
+
+  const buffer = new Uint8Array(bytes).buffer;
+  new DataView(buffer).setUint32(0, bytes.length, true);
+  return buffer;
+}
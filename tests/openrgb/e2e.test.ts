@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenRGBClient } from '../../src/openrgb/client.js';
+import { DeviceType, PacketType } from '../../src/openrgb/enums.js';
+import { gioPlatform } from '../../src/openrgb/gio-transport.js';
+import { createVirtualDevice, FakeOpenRGBServer } from './fake-server.js';
+
+vi.mock('gi://Gio', async () => ({ default: (await import('./fake-server.js')).fakeGio }));
+vi.mock('gi://GLib', async () => ({ default: (await import('./fake-server.js')).fakeGLib }));
+
+// The real client stack talking the SDK wire protocol to an in-process server
+describe('OpenRGBClient against a fake server', () => {
+  let server: FakeOpenRGBServer;
+  let client: OpenRGBClient;
+
+  const strip = () => createVirtualDevice({ name: 'Strip', ledCount: 30, serial: 'S1' });
+  const keyboard = () =>
+    createVirtualDevice({ name: 'Keyboard', ledCount: 104, type: DeviceType.KEYBOARD });
+
+  beforeEach(() => {
+    server = new FakeOpenRGBServer({ devices: [strip(), keyboard()] }).listen();
+    client = new OpenRGBClient(gioPlatform, '127.0.0.1', 6742, 'E2E');
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    server.close();
+  });
+
+  describe('discovery', () => {
+    it('should register and discover every device', async () => {
+      await client.connect();
+      const devices = await client.discoverDevices();
+
+      expect(server.clientName).toBe('E2E');
+      expect(devices.map((device) => [device.name, device.ledCount, device.type])).toEqual([
+        ['Strip', 30, DeviceType.LEDSTRIP],
+        ['Keyboard', 104, DeviceType.KEYBOARD],
+      ]);
+      expect(devices[0]?.vendor).toBe('Virtual');
+      expect(devices.map((device) => [device.directModeIndex, device.staticModeIndex])).toEqual([
+        [0, 1],
+        [0, 1],
+      ]);
+    });
+
+    it('should switch every device to its direct mode', async () => {
+      await client.connect();
+      await client.discoverDevices();
+
+      expect(server.modeUpdates).toEqual([
+        expect.objectContaining({ deviceId: 0, modeIndex: 0, saved: false }),
+        expect.objectContaining({ deviceId: 1, modeIndex: 0, saved: false }),
+      ]);
+      expect(server.devices.map((device) => device.activeMode)).toEqual([0, 0]);
+    });
+
+    it('should list the legacy stableId of a device with a non-ASCII name', async () => {
+      server.close();
+      server = new FakeOpenRGBServer({
+        devices: [strip(), createVirtualDevice({ name: 'Clavier Édition Ω', ledCount: 104 })],
+      }).listen();
+      await client.connect();
+      const [ascii, accented] = await client.discoverDevices({ readOnly: true });
+
+      const legacyStableIds = client.getLegacyStableIds();
+      expect(legacyStableIds.has(ascii!.stableId)).toBe(false);
+      expect(legacyStableIds.get(accented!.stableId)).toMatch(/^[0-9a-f]{16}$/);
+      expect(legacyStableIds.get(accented!.stableId)).not.toBe(accented!.stableId);
+    });
+
+    it('should leave the server untouched during read-only discovery', async () => {
+      await client.connect();
+      await client.discoverDevices({ readOnly: true });
+
+      const sent = new Set(server.received.map((packet) => packet.packetType));
+      expect(sent).toEqual(
+        new Set([
+          PacketType.REQUEST_PROTOCOL_VERSION,
+          PacketType.REQUEST_CONTROLLER_COUNT,
+          PacketType.REQUEST_CONTROLLER_DATA,
+        ]),
+      );
+      expect(server.modeUpdates).toHaveLength(0);
+    });
+
+    it('should discover devices on an unversioned server', async () => {
+      server = new FakeOpenRGBServer({ devices: [strip()], protocolVersion: 0 }).listen();
+
+      await client.connect();
+      const [device] = await client.discoverDevices();
+
+      expect(device?.name).toBe('Strip');
+      expect(device?.vendor).toBe('');
+      expect(device?.ledCount).toBe(30);
+    });
+  });
+
+  describe('color sync', () => {
+    it('should paint every LED of every device', async () => {
+      const color = { r: 53, g: 132, b: 228, a: 255 };
+      await client.connect();
+      await client.discoverDevices();
+
+      await client.setAllDevicesColor(color);
+
+      expect(server.ledUpdates.map((update) => update.deviceId)).toEqual([0, 1]);
+      for (const device of server.devices) {
+        expect(device.colors).toHaveLength(device.leds.length);
+        expect(device.colors.every(({ r, g, b }) => r === 53 && g === 132 && b === 228)).toBe(true);
+      }
+    });
+
+    it('should record a zone update', async () => {
+      await client.connect();
+      const [device] = await client.discoverDevices();
+
+      await client.setZoneColor(device!.stableId, 0, { r: 1, g: 2, b: 3, a: 255 });
+
+      expect(server.zoneUpdates).toEqual([
+        { deviceId: 0, zoneIndex: 0, colors: Array(30).fill({ r: 1, g: 2, b: 3, a: 0 }) },
+      ]);
+    });
+
+    it('should save a color through the static mode', async () => {
+      await client.connect();
+      const [device] = await client.discoverDevices();
+
+      await client.saveColorToDevice(device!.stableId, { r: 10, g: 20, b: 30, a: 255 });
+
+      const saved = server.modeUpdates.find((update) => update.saved);
+      expect(saved?.modeIndex).toBe(1);
+      expect(saved?.mode.colors).toEqual([{ r: 10, g: 20, b: 30, a: 0 }]);
+    });
+
+    it('should paint hotplugged devices with the last color', async () => {
+      const color = { r: 200, g: 0, b: 100, a: 255 };
+      await client.connect();
+      await client.discoverDevices();
+      await client.setAllDevicesColor(color);
+      const added = new Promise((resolve) => client.on('devicesAdded', resolve));
+
+      server.setDevices([
+        ...server.devices,
+        createVirtualDevice({ name: 'Fan', ledCount: 8, type: DeviceType.COOLER }),
+      ]);
+
+      expect(await added).toEqual([expect.objectContaining({ name: 'Fan', ledCount: 8 })]);
+      expect(server.ledUpdates.at(-1)).toEqual({
+        deviceId: 2,
+        colors: Array(8).fill({ r: 200, g: 0, b: 100, a: 0 }),
+      });
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should report a server that goes away', async () => {
+      await client.connect();
+      await client.discoverDevices();
+      const disconnected = new Promise<Error>((resolve) => client.on('disconnected', resolve));
+
+      server.dropConnection();
+
+      expect((await disconnected).message).toContain('Connection closed by server');
+      expect(client.connected).toBe(false);
+    });
+
+    it('should fail to connect while nothing listens', async () => {
+      server.close();
+
+      await expect(client.connect()).rejects.toThrow('Connection refused');
+    });
+
+    it('should resume syncing after reconnecting', async () => {
+      await client.connect();
+      const before = await client.discoverDevices();
+      const disconnected = new Promise((resolve) => client.on('disconnected', resolve));
+      server.dropConnection();
+      await disconnected;
+
+      await client.connect();
+      const after = await client.discoverDevices();
+      await client.setAllDevicesColor({ r: 0, g: 255, b: 0, a: 255 });
+
+      expect(server.connections).toBe(2);
+      expect(after.map((device) => device.stableId)).toEqual(
+        before.map((device) => device.stableId),
+      );
+      expect(server.ledUpdates).toHaveLength(2);
+      expect(server.devices[1]?.colors[103]).toEqual({ r: 0, g: 255, b: 0, a: 0 });
+    });
+  });
+});
@@ -0,0 +1,572 @@
+import { createHash } from 'node:crypto';
+import { createServer, type Server, type Socket } from 'node:net';
+import {
+  decodeRequest,
+  encodeFrame,
+  encodeReply,
+  type ModeUpdate,
+  readPacketHeader,
+} from '../../src/openrgb/codecs.js';
+import { PROTOCOL } from '../../src/openrgb/constants.js';
+import { DeviceData } from '../../src/openrgb/device.js';
+import { DeviceType, ModeFlag, PacketType, ZoneType } from '../../src/openrgb/enums.js';
+import type { DeviceMode, OpenRGBPacket, RGBColor } from '../../src/openrgb/types.js';
+
+// In-process OpenRGB SDK server for end-to-end tests. The `fakeGio` and `fakeGLib`
+// modules below stand in for gi://Gio and gi://GLib: the client's socket streams
+// carry real protocol bytes to whichever FakeOpenRGBServer is listening, which
+// answers with the packet codecs and records what the client asked for.
+//
+//   vi.mock('gi://Gio', async () => ({ default: (await import('./fake-server.js')).fakeGio }));
+//   vi.mock('gi://GLib', async () => ({ default: (await import('./fake-server.js')).fakeGLib }));
+//
+// listenTcp() serves the same protocol on a real loopback port instead, for
+// clients running over the Node transport.
+
+export interface RecordedLedUpdate {
+  deviceId: number;
+  colors: RGBColor[];
+}
+
+export interface RecordedZoneUpdate extends RecordedLedUpdate {
+  zoneIndex: number;
+}
+
+export interface RecordedModeUpdate extends ModeUpdate {
+  deviceId: number;
+  /** SAVEMODE rather than UPDATEMODE */
+  saved: boolean;
+}
+
+export interface FakeServerOptions {
+  devices?: DeviceData[];
+  /** Highest protocol version the server speaks; 0 ignores version negotiation */
+  protocolVersion?: number;
+  profiles?: string[];
+}
+
+export interface VirtualDeviceOptions {
+  name: string;
+  ledCount: number;
+  type?: DeviceType;
+  vendor?: string;
+  serial?: string;
+  location?: string;
+}
+
+type Callback = (source: unknown, result: unknown) => void;
+
+let listening: FakeOpenRGBServer | null = null;
+
+/**
+ * A device with a direct (per-LED) and a saveable static mode and one linear zone
+ */
+export function createVirtualDevice(options: VirtualDeviceOptions): DeviceData {
+  const device = new DeviceData();
+  device.type = options.type ?? DeviceType.LEDSTRIP;
+  device.name = options.name;
+  device.vendor = options.vendor ?? 'Virtual';
+  device.description = 'Virtual device';
+  device.version = '1.0';
+  device.serial = options.serial ?? '';
+  device.location = options.location ?? `virtual:${options.name}`;
+
+  const mode = (name: string, value: number, flags: number, colorMode: number): DeviceMode => ({
+    name,
+    value,
+    flags,
+    speedMin: 0,
+    speedMax: 0,
+    brightnessMin: 0,
+    brightnessMax: 100,
+    colorsMin: colorMode === 2 ? 1 : 0,
+    colorsMax: colorMode === 2 ? 1 : 0,
+    speed: 0,
+    brightness: 100,
+    direction: 0,
+    colorMode,
+    colors: colorMode === 2 ? [{ r: 0, g: 0, b: 0, a: 0 }] : [],
+  });
+  device.modes = [
+    mode('Direct', 0, ModeFlag.HAS_PER_LED_COLOR, 1),
+    mode('Static', 1, ModeFlag.HAS_MODE_SPECIFIC_COLOR | ModeFlag.MANUAL_SAVE, 2),
+    mode('Rainbow', 2, ModeFlag.HAS_SPEED | ModeFlag.HAS_DIRECTION_LR, 0),
+  ];
+  device.activeMode = 2;
+
+  device.zones = [
+    {
+      name: 'Strip',
+      type: ZoneType.LINEAR,
+      ledsMin: options.ledCount,
+      ledsMax: options.ledCount,
+      ledsCount: options.ledCount,
+      segments: [],
+      flags: 0,
+    },
+  ];
+  device.leds = Array.from({ length: options.ledCount }, (_, i) => ({
+    name: `LED ${i + 1}`,
+    value: i,
+  }));
+  device.colors = device.leds.map(() => ({ r: 0, g: 0, b: 0, a: 0 }));
+  return device;
+}
+
+export class FakeOpenRGBServer {
+  devices: DeviceData[];
+  profiles: string[];
+  readonly protocolVersion: number;
+  clientName: string | null;
+  /** Every packet received, in order */
+  readonly received: OpenRGBPacket[];
+  readonly ledUpdates: RecordedLedUpdate[];
+  readonly zoneUpdates: RecordedZoneUpdate[];
+  readonly modeUpdates: RecordedModeUpdate[];
+  connections: number;
+  private connection: ClientEndpoint | null;
+  private tcpServer: Server | null;
+  private clientProtocolVersion: number;
+  private pending: Uint8Array;
+
+  constructor(options: FakeServerOptions = {}) {
+    this.devices = options.devices ?? [];
+    this.profiles = options.profiles ?? [];
+    this.protocolVersion = options.protocolVersion ?? PROTOCOL.MAX_VERSION;
+    this.clientName = null;
+    this.received = [];
+    this.ledUpdates = [];
+    this.zoneUpdates = [];
+    this.modeUpdates = [];
+    this.connections = 0;
+    this.connection = null;
+    this.tcpServer = null;
+    this.clientProtocolVersion = 0;
+    this.pending = new Uint8Array(0);
+  }
+
+  /**
+   * Accept the client's next connections; only one server listens at a time
+   */
+  listen(): this {
+    listening?.close();
+    listening = this;
+    return this;
+  }
+
+  /**
+   * Accept clients on a loopback TCP port; resolves with the port number
+   */
+  listenTcp(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((socket) =>
+        this.attach(new SocketEndpoint(socket, (bytes) => this.receive(bytes))),
+      );
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : 0);
+      });
+      this.tcpServer = server;
+    });
+  }
+
+  /**
+   * Stop listening and drop the current client
+   */
+  close(): void {
+    if (listening === this) {
+      listening = null;
+    }
+    this.tcpServer?.close();
+    this.tcpServer = null;
+    this.dropConnection();
+  }
+
+  get connected(): boolean {
+    return this.connection !== null;
+  }
+
+  /**
+   * Close the client's connection from the server side, as if OpenRGB quit
+   */
+  dropConnection(): void {
+    this.connection?.end();
+    this.connection = null;
+  }
+
+  /**
+   * Replace the device list and notify the client, like a hotplug or rescan
+   */
+  setDevices(devices: DeviceData[]): void {
+    this.devices = devices;
+    this.send(0, PacketType.DEVICE_LIST_UPDATED, new ArrayBuffer(0));
+  }
+
+  /** @internal Called by the fake SocketClient */
+  accept(): FakeConnection {
+    return this.attach(new FakeConnection((bytes) => this.receive(bytes)));
+  }
+
+  private attach<T extends ClientEndpoint>(connection: T): T {
+    this.dropConnection();
+    this.connections++;
+    this.clientProtocolVersion = 0;
+    this.pending = new Uint8Array(0);
+    connection.onClose = () => {
+      if (this.connection === connection) {
+        this.connection = null;
+      }
+    };
+    this.connection = connection;
+    return connection;
+  }
+
+  private receive(bytes: Uint8Array): void {
+    const combined = new Uint8Array(this.pending.length + bytes.length);
+    combined.set(this.pending);
+    combined.set(bytes, this.pending.length);
+    this.pending = combined;
+
+    while (this.pending.length >= PROTOCOL.HEADER_SIZE) {
+      const { deviceId, packetType, dataSize } = readPacketHeader(this.pending);
+      const frameSize = PROTOCOL.HEADER_SIZE + dataSize;
+      if (this.pending.length < frameSize) {
+        return;
+      }
+      const data = this.pending.slice(PROTOCOL.HEADER_SIZE, frameSize).buffer;
+      this.pending = this.pending.slice(frameSize);
+
+      const packet = { deviceId, packetType, data };
+      this.received.push(packet);
+      this.handlePacket(packet);
+    }
+  }
+
+  private handlePacket({ deviceId, packetType, data }: OpenRGBPacket): void {
+    const version = this.clientProtocolVersion;
+
+    switch (packetType) {
+      case PacketType.REQUEST_PROTOCOL_VERSION: {
+        // Unversioned servers do not know this request and stay silent
+        if (this.protocolVersion === 0) {
+          return;
+        }
+        const clientVersion = decodeRequest(packetType, data);
+        this.clientProtocolVersion = Math.min(clientVersion, this.protocolVersion);
+        this.send(0, packetType, encodeReply(packetType, this.protocolVersion));
+        return;
+      }
+      case PacketType.REQUEST_CONTROLLER_COUNT:
+        this.send(0, packetType, encodeReply(packetType, this.devices.length));
+        return;
+      case PacketType.REQUEST_CONTROLLER_DATA: {
+        const device = this.devices[deviceId];
+        if (device) {
+          const requested = Math.min(decodeRequest(packetType, data), this.protocolVersion);
+          this.send(deviceId, packetType, encodeReply(packetType, device, requested));
+        }
+        return;
+      }
+      case PacketType.SET_CLIENT_NAME:
+        this.clientName = decodeRequest(packetType, data);
+        return;
+      case PacketType.RGBCONTROLLER_UPDATELEDS: {
+        const colors = decodeRequest(packetType, data);
+        this.ledUpdates.push({ deviceId, colors });
+        const device = this.devices[deviceId];
+        if (device) {
+          device.colors = colors;
+        }
+        return;
+      }
+      case PacketType.RGBCONTROLLER_UPDATEZONELEDS: {
+        const { zoneIndex, colors } = decodeRequest(packetType, data);
+        this.zoneUpdates.push({ deviceId, zoneIndex, colors });
+        return;
+      }
+      case PacketType.RGBCONTROLLER_UPDATEMODE:
+      case PacketType.RGBCONTROLLER_SAVEMODE: {
+        const { modeIndex, mode } = decodeRequest(packetType, data, version);
+        const saved = packetType === PacketType.RGBCONTROLLER_SAVEMODE;
+        this.modeUpdates.push({ deviceId, modeIndex, mode, saved });
+        const device = this.devices[deviceId];
+        if (device) {
+          device.activeMode = modeIndex;
+          device.modes[modeIndex] = mode;
+        }
+        return;
+      }
+      case PacketType.REQUEST_PROFILE_LIST:
+        this.send(0, packetType, encodeReply(packetType, this.profiles));
+        return;
+      case PacketType.REQUEST_SAVE_PROFILE: {
+        const name = decodeRequest(packetType, data);
+        this.profiles = [...this.profiles.filter((profile) => profile !== name), name];
+        return;
+      }
+      case PacketType.REQUEST_DELETE_PROFILE: {
+        const name = decodeRequest(packetType, data);
+        this.profiles = this.profiles.filter((profile) => profile !== name);
+        return;
+      }
+    }
+  }
+
+  private send(deviceId: number, packetType: PacketType, data: ArrayBuffer): void {
+    this.connection?.push(encodeFrame(deviceId, packetType, data));
+  }
+}
+
+/**
+ * Server end of one client connection
+ */
+interface ClientEndpoint {
+  onClose: (() => void) | null;
+  push(frame: Uint8Array): void;
+  /** Close from the server side; the client reads end of stream */
+  end(): void;
+}
+
+/**
+ * Server end of a loopback TCP connection
+ */
+class SocketEndpoint implements ClientEndpoint {
+  onClose: (() => void) | null;
+  private socket: Socket;
+
+  constructor(socket: Socket, receive: (bytes: Uint8Array) => void) {
+    this.onClose = null;
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => receive(new Uint8Array(chunk)));
+    socket.on('close', () => this.onClose?.());
+    // A client that resets the connection is just gone
+    socket.on('error', () => {});
+  }
+
+  push(frame: Uint8Array): void {
+    if (this.socket.writable) {
+      this.socket.write(frame);
+    }
+  }
+
+  end(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Server end of one client connection, shaped like a Gio.SocketConnection
+ */
+class FakeConnection implements ClientEndpoint {
+  onClose: (() => void) | null;
+  private inbound: Uint8Array[];
+  private pendingRead: Callback | null;
+  private writePending: boolean;
+  private ended: boolean;
+  private closed: boolean;
+  private readonly inputStream: object;
+  private readonly outputStream: object;
+
+  constructor(receive: (bytes: Uint8Array) => void) {
+    this.onClose = null;
+    this.inbound = [];
+    this.pendingRead = null;
+    this.writePending = false;
+    this.ended = false;
+    this.closed = false;
+
+    const input = {
+      read_bytes_async: (
+        _count: number,
+        _priority: number,
+        cancellable: FakeCancellable | null,
+        callback: Callback,
+      ) => {
+        this.pendingRead = callback;
+        cancellable?.connect(() => {
+          if (this.pendingRead === callback) {
+            this.pendingRead = null;
+            setTimeout(() => callback(input, { error: 'Operation was cancelled' }), 0);
+          }
+        });
+        this.deliver();
+      },
+      read_bytes_finish: (result: { error?: string; data: Uint8Array }) => {
+        if (result.error) throw new Error(result.error);
+        return fakeGLib.Bytes.new(result.data);
+      },
+    };
+    this.inputStream = input;
+
+    const output = {
+      write_bytes_async: (
+        bytes: FakeBytes,
+        _priority: number,
+        _cancellable: FakeCancellable | null,
+        callback: Callback,
+      ) => {
+        if (this.closed || this.ended) {
+          setTimeout(() => callback(output, { error: 'Broken pipe' }), 0);
+          return;
+        }
+        // GIO refuses a second operation while one is still pending on the stream
+        if (this.writePending) {
+          setTimeout(() => callback(output, { error: 'Stream has outstanding operation' }), 0);
+          return;
+        }
+        this.writePending = true;
+        receive(bytes.get_data());
+        setTimeout(() => {
+          this.writePending = false;
+          callback(output, { size: bytes.get_size() });
+        }, 0);
+      },
+      write_bytes_finish: (result: { error?: string; size: number }) => {
+        if (result.error) throw new Error(result.error);
+        return result.size;
+      },
+    };
+    this.outputStream = output;
+  }
+
+  get_input_stream(): object {
+    return this.inputStream;
+  }
+
+  get_output_stream(): object {
+    return this.outputStream;
+  }
+
+  /** Closed by the client */
+  close(): boolean {
+    this.closed = true;
+    this.onClose?.();
+    return true;
+  }
+
+  /** Closed by the server: pending and later reads see end of stream */
+  end(): void {
+    this.ended = true;
+    this.deliver();
+  }
+
+  push(frame: Uint8Array): void {
+    if (this.closed || this.ended) {
+      return;
+    }
+    this.inbound.push(frame);
+    this.deliver();
+  }
+
+  private deliver(): void {
+    const callback = this.pendingRead;
+    if (!callback || (this.inbound.length === 0 && !this.ended)) {
+      return;
+    }
+    this.pendingRead = null;
+    const data = this.inbound.shift() ?? new Uint8Array(0);
+    setTimeout(() => callback(this.inputStream, { data }), 0);
+  }
+}
+
+class FakeCancellable {
+  private cancelled = false;
+  private handlers: Array<() => void> = [];
+
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.handlers.forEach((handler) => handler());
+  }
+
+  is_cancelled(): boolean {
+    return this.cancelled;
+  }
+
+  connect(handler: () => void): number {
+    this.handlers.push(handler);
+    return this.handlers.length;
+  }
+}
+
+interface FakeBytes {
+  get_data(): Uint8Array;
+  get_size(): number;
+  new_from_bytes(offset: number, length: number): FakeBytes;
+}
+
+export const fakeGio = {
+  InetAddress: {
+    new_from_string: (host: string) => (/^[\d.]+$|:/.test(host) ? { to_string: () => host } : null),
+  },
+  InetSocketAddress: {
+    new: (address: unknown, port: number) => ({ get_address: () => address, get_port: () => port }),
+  },
+  Resolver: {
+    get_default: () => ({
+      lookup_by_name_async: (_host: string, _cancellable: unknown, callback: Callback) =>
+        setTimeout(() => callback(fakeGio.Resolver.get_default(), {}), 0),
+      lookup_by_name_finish: () => [{ to_string: () => '127.0.0.1' }],
+    }),
+  },
+  SocketClient: class {
+    connect_async(_address: unknown, _cancellable: unknown, callback: Callback): void {
+      const server = listening;
+      setTimeout(
+        () =>
+          callback(
+            {
+              connect_finish: () => {
+                if (!server || listening !== server) {
+                  throw new Error('Connection refused');
+                }
+                return server.accept();
+              },
+            },
+            {},
+          ),
+        0,
+      );
+    }
+  },
+  Cancellable: FakeCancellable,
+};
+
+export const fakeGLib = {
+  PRIORITY_DEFAULT: 0,
+  SOURCE_REMOVE: false,
+  SOURCE_CONTINUE: true,
+  ChecksumType: { SHA256: 1 },
+  // Like GLib, hash the first `length` UTF-8 bytes, or the whole string when negative
+  compute_checksum_for_string: (_type: number, data: string, length: number) => {
+    const bytes = Buffer.from(data, 'utf8');
+    return createHash('sha256')
+      .update(length < 0 ? bytes : bytes.subarray(0, length))
+      .digest('hex');
+  },
+  Bytes: {
+    // Like GLib.Bytes, keep a copy rather than a view of the caller's buffer
+    new: (data: Uint8Array): FakeBytes => {
+      const copy = data.slice();
+      return {
+        get_data: () => copy,
+        get_size: () => copy.length,
+        new_from_bytes: (offset, length) =>
+          fakeGLib.Bytes.new(copy.subarray(offset, offset + length)),
+      };
+    },
+  },
+  timeout_add: (_priority: number, delay: number, callback: () => boolean): number => {
+    const id = setInterval(() => {
+      if (!callback()) {
+        clearInterval(id);
+      }
+    }, delay);
+    return id as unknown as number;
+  },
+  source_remove: (id: number): boolean => {
+    clearInterval(id);
+    return true;
+  },
+};
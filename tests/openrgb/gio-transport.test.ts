@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GioTransport } from '../../src/openrgb/gio-transport.js';
+import { Cancellation } from '../../src/openrgb/transport.js';
+
+// A socket whose output stream takes at most `acceptLimit` bytes per write, like a full kernel buffer
+const socket = vi.hoisted(() => ({
+  acceptLimit: Number.POSITIVE_INFINITY,
+  failWith: null as Error | null,
+  written: [] as number[],
+  writeCalls: 0,
+}));
+
+vi.mock('gi://GLib', () => {
+  class FakeBytes {
+    constructor(private readonly data: Uint8Array) {}
+    static new(data: Uint8Array) {
+      return new FakeBytes(data.slice());
+    }
+    get_size() {
+      return this.data.length;
+    }
+    get_data() {
+      return this.data;
+    }
+    new_from_bytes(offset: number, length: number) {
+      return new FakeBytes(this.data.slice(offset, offset + length));
+    }
+  }
+  return { default: { Bytes: FakeBytes, PRIORITY_DEFAULT: 0 } };
+});
+
+vi.mock('gi://Gio', () => {
+  const outputStream = {
+    write_bytes_async: (
+      bytes: { get_data(): Uint8Array },
+      _priority: number,
+      _cancellable: unknown,
+      callback: (source: unknown, result: unknown) => void,
+    ) => {
+      socket.writeCalls++;
+      const accepted = bytes.get_data().slice(0, socket.acceptLimit);
+      setTimeout(() => callback(outputStream, accepted), 0);
+    },
+    write_bytes_finish: (accepted: Uint8Array) => {
+      if (socket.failWith) {
+        throw socket.failWith;
+      }
+      socket.written.push(...accepted);
+      return accepted.length;
+    },
+  };
+  const connection = { get_output_stream: () => outputStream, close: () => {} };
+
+  return {
+    default: {
+      Cancellable: class {
+        cancel() {}
+        is_cancelled() {
+          return false;
+        }
+      },
+      InetAddress: {
+        new_from_string: (host: string) => ({ to_string: () => host }),
+      },
+      InetSocketAddress: {
+        new: (address: unknown) => ({ get_address: () => address }),
+      },
+      SocketClient: class {
+        connect_async(
+          _address: unknown,
+          _cancellable: unknown,
+          callback: (source: unknown, result: unknown) => void,
+        ) {
+          setTimeout(() => callback({ connect_finish: () => connection }, null), 0);
+        }
+      },
+    },
+  };
+});
+
+describe('GioTransport', () => {
+  beforeEach(() => {
+    socket.acceptLimit = Number.POSITIVE_INFINITY;
+    socket.failWith = null;
+    socket.written = [];
+    socket.writeCalls = 0;
+  });
+
+  const connect = () => new GioTransport().connect('127.0.0.1', 6742, new Cancellation());
+
+  it('should report the address that accepted the connection', async () => {
+    const connection = await connect();
+
+    expect(connection.address).toBe('127.0.0.1:6742');
+  });
+
+  it('should keep writing until a partially accepted frame is out', async () => {
+    socket.acceptLimit = 5;
+    const connection = await connect();
+    const frame = Uint8Array.from({ length: 23 }, (_, i) => i);
+
+    await connection.write(frame, new Cancellation());
+
+    expect(socket.written).toEqual([...frame]);
+    expect(socket.writeCalls).toBe(5);
+  });
+
+  it('should keep queued frames in order across partial writes', async () => {
+    socket.acceptLimit = 3;
+    const connection = await connect();
+
+    await Promise.all([
+      connection.write(Uint8Array.of(1, 2, 3, 4, 5, 6, 7), new Cancellation()),
+      connection.write(Uint8Array.of(8, 9, 10, 11), new Cancellation()),
+    ]);
+
+    expect(socket.written).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+  });
+
+  it('should reject when the stream fails', async () => {
+    socket.failWith = new Error('Broken pipe');
+    const connection = await connect();
+
+    await expect(connection.write(Uint8Array.of(1), new Cancellation())).rejects.toThrow(
+      'Broken pipe',
+    );
+  });
+});
@@ -1,7 +1,10 @@
-// @ts-ignore - provided by mock in test setup
-import GLib from 'gi://GLib';
-import { describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { gioSha256 } from '../../src/openrgb/gio-transport.js';
 import { buildDeviceFingerprint, hashFingerprint } from '../../src/openrgb/hash.js';
+import { nodeSha256 } from '../../src/openrgb/node-transport.js';
+
+vi.mock('gi://GLib', async () => ({ default: (await import('./fake-server.js')).fakeGLib }));
 
 describe('hash.ts', () => {
   describe('buildDeviceFingerprint', () => {
@@ -45,25 +48,42 @@ describe('hash.ts', () => {
 
   describe('hashFingerprint', () => {
     it('produces 16 hex chars', () => {
-      const h = hashFingerprint('example-fingerprint', GLib);
+      const h = hashFingerprint('example-fingerprint', gioSha256);
       expect(h).toMatch(/^[0-9a-f]{16}$/);
     });
 
     it('is deterministic for same input', () => {
-      const a = hashFingerprint('same-fp', GLib);
-      const b = hashFingerprint('same-fp', GLib);
+      const a = hashFingerprint('same-fp', gioSha256);
+      const b = hashFingerprint('same-fp', gioSha256);
       expect(a).toBe(b);
     });
 
     it('changes when fingerprint changes', () => {
-      const a = hashFingerprint('fp-A', GLib);
-      const b = hashFingerprint('fp-B', GLib);
+      const a = hashFingerprint('fp-A', gioSha256);
+      const b = hashFingerprint('fp-B', gioSha256);
       expect(a).not.toBe(b);
     });
 
-    it('throws if GLib returns empty hash', () => {
-      const badGlib = { ChecksumType: { SHA256: 1 }, compute_checksum_for_string: () => '' };
-      expect(() => hashFingerprint('x', badGlib as any)).toThrow(/returned empty hash/);
+    it('uses the first 16 hex chars of the digest', () => {
+      expect(hashFingerprint('fp-A', nodeSha256)).toBe(
+        createHash('sha256').update('fp-A').digest('hex').slice(0, 16),
+      );
+    });
+
+    it('gives the same stableId on GIO and Node for non-ASCII device names', () => {
+      const fp = buildDeviceFingerprint({
+        serial: null,
+        location: 'HID: /dev/hidraw3',
+        name: 'Clavier Gaming RGB — Édition Ω',
+        ledCount: 104,
+      });
+
+      expect(hashFingerprint(fp, gioSha256)).toBe(hashFingerprint(fp, nodeSha256));
+      expect(gioSha256(fp)).toBe(createHash('sha256').update(fp, 'utf8').digest('hex'));
+    });
+
+    it('throws if the digest is empty', () => {
+      expect(() => hashFingerprint('x', () => '')).toThrow(/returned empty hash/);
     });
   });
 });
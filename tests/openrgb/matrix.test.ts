@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ZoneType } from '../../src/openrgb/enums.js';
+import {
+  ledIndexToMatrixCell,
+  MATRIX_NO_LED,
+  matrixCellToLedIndex,
+  zoneStartIndex,
+} from '../../src/openrgb/matrix.js';
+import type { DeviceZone } from '../../src/openrgb/types.js';
+
+const _ = MATRIX_NO_LED;
+
+function zone(name: string, ledsCount: number, matrixMap?: number[][]): DeviceZone {
+  return {
+    name,
+    type: matrixMap ? ZoneType.MATRIX : ZoneType.LINEAR,
+    ledsMin: ledsCount,
+    ledsMax: ledsCount,
+    ledsCount,
+    ...(matrixMap && {
+      matrixHeight: matrixMap.length,
+      matrixWidth: matrixMap[0]?.length ?? 0,
+      matrixMap,
+    }),
+  };
+}
+
+// A 5-LED logo strip, then a keyboard with gaps in its 3x4 grid, then a 2x2 panel
+const zones: DeviceZone[] = [
+  zone('Logo', 5),
+  zone('Keys', 8, [
+    [0, 1, 2, 3],
+    [4, _, 5, _],
+    [_, 6, _, 7],
+  ]),
+  zone('Panel', 4, [
+    [1, 0],
+    [3, 2],
+  ]),
+];
+
+describe('matrix helpers', () => {
+  describe('zoneStartIndex', () => {
+    it('should add up the LED counts of earlier zones', () => {
+      expect(zoneStartIndex(zones, 0)).toBe(0);
+      expect(zoneStartIndex(zones, 1)).toBe(5);
+      expect(zoneStartIndex(zones, 2)).toBe(13);
+    });
+
+    it('should reject unknown zones', () => {
+      expect(() => zoneStartIndex(zones, 3)).toThrow('Zone 3 does not exist');
+    });
+  });
+
+  describe('matrixCellToLedIndex', () => {
+    it('should offset zone-local indices by the zone start', () => {
+      expect(matrixCellToLedIndex(zones, 1, 0, 0)).toBe(5);
+      expect(matrixCellToLedIndex(zones, 1, 1, 2)).toBe(10);
+      expect(matrixCellToLedIndex(zones, 1, 2, 3)).toBe(12);
+      expect(matrixCellToLedIndex(zones, 2, 0, 0)).toBe(14);
+    });
+
+    it('should return null for empty cells', () => {
+      expect(matrixCellToLedIndex(zones, 1, 1, 1)).toBeNull();
+      expect(matrixCellToLedIndex(zones, 1, 2, 0)).toBeNull();
+    });
+
+    it('should reject cells outside the matrix', () => {
+      expect(() => matrixCellToLedIndex(zones, 1, 3, 0)).toThrow(
+        'Cell (3, 0) is outside the 3x4 matrix of zone 1',
+      );
+      expect(() => matrixCellToLedIndex(zones, 1, 0, 4)).toThrow('outside');
+    });
+
+    it('should reject zones without a matrix map', () => {
+      expect(() => matrixCellToLedIndex(zones, 0, 0, 0)).toThrow('Zone 0 (Logo) is not a matrix');
+    });
+  });
+
+  describe('ledIndexToMatrixCell', () => {
+    it('should find the cell of every mapped LED', () => {
+      expect(ledIndexToMatrixCell(zones, 5)).toEqual({ zoneIndex: 1, row: 0, column: 0 });
+      expect(ledIndexToMatrixCell(zones, 11)).toEqual({ zoneIndex: 1, row: 2, column: 1 });
+      expect(ledIndexToMatrixCell(zones, 13)).toEqual({ zoneIndex: 2, row: 0, column: 1 });
+    });
+
+    it('should round-trip with matrixCellToLedIndex', () => {
+      for (let led = 5; led < 17; led++) {
+        const cell = ledIndexToMatrixCell(zones, led);
+        expect(cell).not.toBeNull();
+        expect(matrixCellToLedIndex(zones, cell!.zoneIndex, cell!.row, cell!.column)).toBe(led);
+      }
+    });
+
+    it('should return null for LEDs in zones without a matrix', () => {
+      expect(ledIndexToMatrixCell(zones, 2)).toBeNull();
+    });
+
+    it('should reject LEDs past the last zone', () => {
+      expect(() => ledIndexToMatrixCell(zones, 17)).toThrow(
+        "LED 17 is outside the device's 17 LEDs",
+      );
+    });
+  });
+});
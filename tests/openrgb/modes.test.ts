@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ModeFlag } from '../../src/openrgb/enums.js';
+import {
+  findDirectModeIndex,
+  findStaticModeIndex,
+  getModeCapabilities,
+} from '../../src/openrgb/modes.js';
+import type { DeviceMode } from '../../src/openrgb/types.js';
+
+function mode(name: string, flags: number): DeviceMode {
+  return { name, value: 0, flags };
+}
+
+const PER_LED = ModeFlag.HAS_PER_LED_COLOR;
+const SPECIFIC = ModeFlag.HAS_MODE_SPECIFIC_COLOR;
+const SAVE = ModeFlag.MANUAL_SAVE;
+const ANIMATED = ModeFlag.HAS_SPEED | ModeFlag.HAS_DIRECTION_LR;
+
+describe('getModeCapabilities', () => {
+  it('should decode every flag', () => {
+    const capabilities = getModeCapabilities({ flags: 0x3ff });
+
+    expect(Object.values(capabilities).every(Boolean)).toBe(true);
+  });
+
+  it('should treat any direction flag as having a direction', () => {
+    for (const flag of [
+      ModeFlag.HAS_DIRECTION_LR,
+      ModeFlag.HAS_DIRECTION_UD,
+      ModeFlag.HAS_DIRECTION_HV,
+    ]) {
+      expect(getModeCapabilities({ flags: flag }).hasDirection).toBe(true);
+    }
+  });
+
+  it('should report nothing for a mode without flags', () => {
+    const capabilities = getModeCapabilities({});
+
+    expect(Object.values(capabilities).some(Boolean)).toBe(false);
+  });
+
+  it('should decode a typical static mode', () => {
+    expect(getModeCapabilities({ flags: SPECIFIC | SAVE | ModeFlag.HAS_BRIGHTNESS })).toEqual({
+      hasSpeed: false,
+      hasDirection: false,
+      hasBrightness: true,
+      hasPerLedColor: false,
+      hasModeSpecificColor: true,
+      hasRandomColor: false,
+      manualSave: true,
+      automaticSave: false,
+    });
+  });
+});
+
+describe('findDirectModeIndex', () => {
+  it('should select the per-LED mode regardless of its name', () => {
+    const modes = [mode('Estático', SPECIFIC | SAVE), mode('Directo', PER_LED)];
+
+    expect(findDirectModeIndex(modes)).toBe(1);
+  });
+
+  it('should prefer a mode that is not saved to onboard memory', () => {
+    const modes = [mode('Custom', PER_LED | SAVE), mode('Direct', PER_LED)];
+
+    expect(findDirectModeIndex(modes)).toBe(1);
+  });
+
+  it('should prefer a still mode over an animated per-LED one', () => {
+    const modes = [mode('Wave', PER_LED | ANIMATED), mode('Custom', PER_LED | SAVE)];
+
+    expect(findDirectModeIndex(modes)).toBe(1);
+  });
+
+  it('should prefer the mode named Direct among equally capable ones', () => {
+    const modes = [
+      mode('Static', SPECIFIC | SAVE),
+      mode('Custom', PER_LED),
+      mode('direct', PER_LED),
+    ];
+
+    expect(findDirectModeIndex(modes)).toBe(2);
+  });
+
+  it('should not pick a less capable mode for being named Direct', () => {
+    const modes = [mode('Custom', PER_LED), mode('Direct', PER_LED | SAVE)];
+
+    expect(findDirectModeIndex(modes)).toBe(0);
+  });
+
+  it('should fall back to mode 0 without any per-LED mode', () => {
+    const modes = [mode('Static', SPECIFIC | SAVE), mode('Rainbow', ANIMATED)];
+
+    expect(findDirectModeIndex(modes)).toBe(0);
+    expect(findDirectModeIndex([])).toBe(0);
+  });
+});
+
+describe('findStaticModeIndex', () => {
+  it('should select a saveable still mode regardless of its name', () => {
+    const modes = [
+      mode('Directo', PER_LED),
+      mode('Breathing', SPECIFIC | SAVE | ModeFlag.HAS_SPEED),
+      mode('Fijo', SPECIFIC | SAVE),
+    ];
+
+    expect(findStaticModeIndex(modes, 0)).toBe(2);
+  });
+
+  it('should fall back to a saveable per-LED mode', () => {
+    const modes = [mode('Direct', PER_LED), mode('Custom', PER_LED | SAVE)];
+
+    expect(findStaticModeIndex(modes, 0)).toBe(1);
+  });
+
+  it('should never select the direct mode', () => {
+    const modes = [mode('Custom', PER_LED | SAVE)];
+
+    expect(findStaticModeIndex(modes, 0)).toBeNull();
+  });
+
+  it('should return null when no mode can be saved', () => {
+    const modes = [mode('Direct', PER_LED), mode('Static', SPECIFIC)];
+
+    expect(findStaticModeIndex(modes, 0)).toBeNull();
+  });
+});
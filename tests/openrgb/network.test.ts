@@ -1,8 +1,220 @@
-import { describe, expect, it, vi } from 'vitest';
+import GLib from 'gi://GLib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PacketType } from '../../src/openrgb/enums.js';
+import { OpenRGBTimeoutError } from '../../src/openrgb/errors.js';
+import { gioPlatform } from '../../src/openrgb/gio-transport.js';
+import { NetworkClient } from '../../src/openrgb/network.js';
 
 // Since NetworkClient depends on GJS/GTK which isn't available in test environment,
 // we'll create tests that can work with mocks and test the basic structure
 
+// In-memory socket standing in for Gio: the test plays the server by answering written packets
+const fakeSocket = vi.hoisted(() => {
+  type ReadCallback = (source: unknown, result: unknown) => void;
+
+  const state = {
+    written: [] as Uint8Array[],
+    inbound: [] as Uint8Array[],
+    pendingRead: null as { callback: ReadCallback; cancellable: any } | null,
+    onPacket: null as
+      | null
+      | ((packet: { deviceId: number; packetType: number; data: Uint8Array }) => void),
+    outbound: new Uint8Array(0),
+    stallConnect: false,
+    stallWrites: false,
+    writePending: false,
+  };
+
+  const inputStream = {
+    read_bytes_async: (
+      _count: number,
+      _priority: number,
+      cancellable: any,
+      callback: ReadCallback,
+    ) => {
+      state.pendingRead = { callback, cancellable };
+      cancellable?.onCancel(() => {
+        if (state.pendingRead?.callback === callback) {
+          state.pendingRead = null;
+          setTimeout(() => callback(inputStream, { cancelled: true }), 0);
+        }
+      });
+      deliver();
+    },
+    read_bytes_finish: (result: { cancelled?: boolean; data?: Uint8Array }) => {
+      if (result.cancelled) throw new Error('Operation was cancelled');
+      const data = result.data ?? new Uint8Array(0);
+      return { get_size: () => data.length, get_data: () => data };
+    },
+  };
+
+  function deliver(): void {
+    if (!state.pendingRead || state.inbound.length === 0) return;
+    const { callback } = state.pendingRead;
+    state.pendingRead = null;
+    const data = state.inbound.shift()!;
+    setTimeout(() => callback(inputStream, { data }), 0);
+  }
+
+  // Frames what the client wrote and hands complete packets to the test's server handler
+  function receive(bytes: Uint8Array): void {
+    state.written.push(bytes);
+    const combined = new Uint8Array(state.outbound.length + bytes.length);
+    combined.set(state.outbound);
+    combined.set(bytes, state.outbound.length);
+    state.outbound = combined;
+
+    while (state.outbound.length >= 16) {
+      const view = new DataView(state.outbound.buffer, state.outbound.byteOffset);
+      const size = view.getUint32(12, true);
+      if (state.outbound.length < 16 + size) return;
+      const packet = {
+        deviceId: view.getUint32(4, true),
+        packetType: view.getUint32(8, true),
+        data: state.outbound.slice(16, 16 + size),
+      };
+      state.outbound = state.outbound.slice(16 + size);
+      state.onPacket?.(packet);
+    }
+  }
+
+  const outputStream = {
+    write_bytes_async: (
+      bytes: any,
+      _priority: number,
+      cancellable: any,
+      callback: ReadCallback,
+    ) => {
+      if (state.stallWrites) {
+        cancellable?.onCancel(() =>
+          setTimeout(() => callback(outputStream, { cancelled: true }), 0),
+        );
+        return;
+      }
+      // GIO refuses a second operation while one is still pending on the stream
+      if (state.writePending) {
+        setTimeout(() => callback(outputStream, { pending: true }), 0);
+        return;
+      }
+      state.writePending = true;
+      receive(bytes.get_data());
+      setTimeout(() => {
+        state.writePending = false;
+        callback(outputStream, bytes);
+      }, 0);
+    },
+    write_bytes_finish: (bytes: any) => {
+      if (bytes.cancelled) throw new Error('Operation was cancelled');
+      if (bytes.pending) throw new Error('Stream has outstanding operation');
+      return bytes.get_size();
+    },
+  };
+
+  return {
+    state,
+    connection: {
+      get_input_stream: () => inputStream,
+      get_output_stream: () => outputStream,
+      close: () => {},
+    },
+    push(bytes: Uint8Array): void {
+      state.inbound.push(bytes);
+      deliver();
+    },
+    reset(): void {
+      state.written = [];
+      state.inbound = [];
+      state.pendingRead = null;
+      state.onPacket = null;
+      state.outbound = new Uint8Array(0);
+      state.stallConnect = false;
+      state.stallWrites = false;
+      state.writePending = false;
+    },
+  };
+});
+
+vi.mock('gi://Gio', () => ({
+  default: {
+    InetAddress: { new_from_string: (host: string) => ({ to_string: () => host }) },
+    InetSocketAddress: { new: (address: unknown) => ({ get_address: () => address }) },
+    SocketClient: class {
+      connect_async(_address: unknown, cancellable: any, callback: any) {
+        if (fakeSocket.state.stallConnect) {
+          const cancelled = () => {
+            throw new Error('Operation was cancelled');
+          };
+          cancellable?.onCancel(() =>
+            setTimeout(() => callback({ connect_finish: cancelled }, {}), 0),
+          );
+          return;
+        }
+        setTimeout(() => callback({ connect_finish: () => fakeSocket.connection }, {}), 0);
+      }
+    },
+    Cancellable: class {
+      private cancelled = false;
+      private handlers: Array<() => void> = [];
+      cancel() {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        this.handlers.forEach((handler) => handler());
+      }
+      is_cancelled() {
+        return this.cancelled;
+      }
+      // Like a GIO call given an already cancelled cancellable, fail right away
+      onCancel(handler: () => void) {
+        if (this.cancelled) {
+          handler();
+          return;
+        }
+        this.handlers.push(handler);
+      }
+    },
+  },
+}));
+
+vi.mock('gi://GLib', () => {
+  const wrap = (data: Uint8Array): any => ({
+    get_data: () => data,
+    get_size: () => data.length,
+    new_from_bytes: (offset: number, length: number) =>
+      wrap(data.subarray(offset, offset + length)),
+  });
+  const Bytes = {
+    // Like GLib.Bytes, keep a copy rather than a view of the caller's buffer
+    new: (data: Uint8Array) => wrap(data.slice()),
+  };
+  return {
+    default: {
+      PRIORITY_DEFAULT: 0,
+      SOURCE_REMOVE: false,
+      Bytes,
+      timeout_add: (_priority: number, delay: number, callback: () => boolean) =>
+        setTimeout(callback, delay) as unknown as number,
+      source_remove: (id: number) => clearTimeout(id),
+    },
+  };
+});
+
+function frame(deviceId: number, packetType: number, payload: Uint8Array = new Uint8Array(0)) {
+  const bytes = new Uint8Array(16 + payload.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4f, 0x52, 0x47, 0x42]);
+  view.setUint32(4, deviceId, true);
+  view.setUint32(8, packetType, true);
+  view.setUint32(12, payload.length, true);
+  bytes.set(payload, 16);
+  return bytes;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
 describe('NetworkClient', () => {
   describe('module structure', () => {
     it('should be importable', async () => {
@@ -184,3 +396,481 @@ describe('NetworkClient', () => {
     });
   });
 });
+
+describe('NetworkClient framed reader', () => {
+  let client: NetworkClient;
+
+  beforeEach(async () => {
+    fakeSocket.reset();
+    fakeSocket.state.onPacket = (packet) => {
+      if (packet.packetType === PacketType.REQUEST_PROTOCOL_VERSION) {
+        fakeSocket.push(frame(0, PacketType.REQUEST_PROTOCOL_VERSION, uint32(4)));
+      }
+    };
+    client = new NetworkClient(gioPlatform, '127.0.0.1', 6742, 'Test');
+    await client.connect();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+  });
+
+  it('negotiates the lower of both protocol versions', () => {
+    expect(client.getProtocolVersion()).toBe(4);
+  });
+
+  it('reassembles a reply split across several reads', async () => {
+    fakeSocket.state.onPacket = () => {
+      const reply = frame(0, PacketType.REQUEST_CONTROLLER_COUNT, uint32(3));
+      fakeSocket.push(reply.slice(0, 5));
+      fakeSocket.push(reply.slice(5, 18));
+      fakeSocket.push(reply.slice(18));
+    };
+
+    await expect(client.getControllerCount()).resolves.toBe(3);
+  });
+
+  it('splits several frames delivered in a single read', async () => {
+    const notifications: number[] = [];
+    client.on('notification', (packet) => notifications.push(packet.packetType));
+
+    fakeSocket.state.onPacket = () => {
+      const unsolicited = frame(0, PacketType.RGBCONTROLLER_UPDATEMODE);
+      const reply = frame(0, PacketType.REQUEST_CONTROLLER_COUNT, uint32(7));
+      const both = new Uint8Array(unsolicited.length + reply.length);
+      both.set(unsolicited);
+      both.set(reply, unsolicited.length);
+      fakeSocket.push(both);
+    };
+
+    await expect(client.getControllerCount()).resolves.toBe(7);
+    expect(notifications).toEqual([PacketType.RGBCONTROLLER_UPDATEMODE]);
+  });
+
+  it('emits deviceListUpdated instead of a generic notification', async () => {
+    const notifications: number[] = [];
+    const listUpdated = vi.fn();
+    client.on('notification', (packet) => notifications.push(packet.packetType));
+    client.on('deviceListUpdated', listUpdated);
+
+    fakeSocket.state.onPacket = () => {
+      fakeSocket.push(frame(0, PacketType.DEVICE_LIST_UPDATED));
+      fakeSocket.push(frame(0, PacketType.REQUEST_CONTROLLER_COUNT, uint32(2)));
+    };
+
+    await expect(client.getControllerCount()).resolves.toBe(2);
+    expect(listUpdated).toHaveBeenCalledTimes(1);
+    expect(notifications).toEqual([]);
+  });
+
+  it('matches replies to requests by device index', async () => {
+    const answered: number[] = [];
+    fakeSocket.state.onPacket = (packet) => {
+      if (packet.packetType === PacketType.REQUEST_CONTROLLER_DATA) {
+        answered.push(packet.deviceId);
+      }
+      if (answered.length === 2) {
+        // Answer out of order
+        fakeSocket.push(frame(1, PacketType.REQUEST_CONTROLLER_DATA, uint32(11)));
+        fakeSocket.push(frame(0, PacketType.REQUEST_CONTROLLER_DATA, uint32(10)));
+      }
+    };
+
+    const [first, second] = await Promise.all([
+      client.request(0, PacketType.REQUEST_CONTROLLER_DATA),
+      client.request(1, PacketType.REQUEST_CONTROLLER_DATA),
+    ]);
+
+    expect(new DataView(first).getUint32(0, true)).toBe(10);
+    expect(new DataView(second).getUint32(0, true)).toBe(11);
+  });
+
+  it('encodes per-LED colors and repeated single colors alike', async () => {
+    const sent: Uint8Array[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet.data);
+
+    await client.updateLeds(0, [
+      { r: 1, g: 2, b: 3 },
+      { r: 4, g: 5, b: 6 },
+    ]);
+    await client.updateLeds(0, { r: 7, g: 8, b: 9 }, 2);
+
+    const [perLed, repeated] = sent;
+    expect([...perLed!]).toEqual([14, 0, 0, 0, 2, 0, 1, 2, 3, 0, 4, 5, 6, 0]);
+    expect([...repeated!]).toEqual([14, 0, 0, 0, 2, 0, 7, 8, 9, 0, 7, 8, 9, 0]);
+  });
+
+  it('encodes zone LED updates with the zone index and per-LED colors', async () => {
+    const sent: { deviceId: number; packetType: number; data: Uint8Array }[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet);
+
+    await client.updateZoneLeds(2, 1, [
+      { r: 255, g: 0, b: 0 },
+      { r: 0, g: 255, b: 0 },
+    ]);
+
+    expect(sent).toHaveLength(1);
+    const [packet] = sent;
+    expect(packet?.deviceId).toBe(2);
+    expect(packet?.packetType).toBe(PacketType.RGBCONTROLLER_UPDATEZONELEDS);
+
+    const view = new DataView(packet!.data.buffer, packet!.data.byteOffset);
+    expect(view.getUint32(0, true)).toBe(18);
+    expect(view.getUint32(4, true)).toBe(1);
+    expect(view.getUint16(8, true)).toBe(2);
+    expect([...packet!.data.slice(10)]).toEqual([255, 0, 0, 0, 0, 255, 0, 0]);
+  });
+
+  it('queues concurrent writes instead of overlapping them on the stream', async () => {
+    const sent: number[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet.deviceId);
+
+    await Promise.all(
+      [0, 1, 2].map((deviceId) => client.updateLeds(deviceId, { r: 1, g: 2, b: 3 }, 2)),
+    );
+
+    expect(sent).toEqual([0, 1, 2]);
+  });
+
+  const directMode = {
+    name: 'Direct',
+    value: 0,
+    flags: 0,
+    speedMin: 0,
+    speedMax: 0,
+    brightnessMin: 0,
+    brightnessMax: 0,
+    colorsMin: 0,
+    colorsMax: 0,
+    speed: 0,
+    brightness: 0,
+    direction: 0,
+    colorMode: 0,
+    colors: [],
+  };
+
+  it('only pauses after a mode switch when a settle time is given', async () => {
+    const timeoutAdd = vi.spyOn(GLib, 'timeout_add');
+
+    await client.setDeviceMode(0, 0, directMode);
+    await client.setDeviceMode(0, 0, directMode, 50);
+
+    const pauses = timeoutAdd.mock.calls.filter(([, delay]) => delay === 50);
+    expect(pauses).toHaveLength(1);
+    expect(timeoutAdd.mock.calls.some(([, delay]) => delay === 200)).toBe(false);
+    timeoutAdd.mockRestore();
+  });
+
+  it('ends a pending settle pause when disconnected', async () => {
+    fakeSocket.state.written = [];
+    const switching = client.setDeviceMode(0, 0, directMode, 60000);
+    await vi.waitFor(() => expect(fakeSocket.state.written.length).toBeGreaterThan(0));
+
+    client.disconnect();
+
+    await expect(switching).rejects.toThrow('Connection closed');
+  });
+
+  it('sends header and payload with a single write', async () => {
+    fakeSocket.state.written = [];
+
+    await client.updateZoneLeds(2, 1, [{ r: 1, g: 2, b: 3 }]);
+
+    expect(fakeSocket.state.written).toHaveLength(1);
+    expect(fakeSocket.state.written[0]).toHaveLength(16 + 14);
+  });
+
+  it('batches LED updates for several devices into one write', async () => {
+    const sent: { deviceId: number; packetType: number; data: Uint8Array }[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet);
+    fakeSocket.state.written = [];
+
+    await client.updateLedsBatch([
+      { deviceId: 0, color: { r: 1, g: 2, b: 3 }, ledCount: 1 },
+      { deviceId: 3, color: { r: 4, g: 5, b: 6 }, ledCount: 3 },
+      { deviceId: 5, color: { r: 7, g: 8, b: 9 }, ledCount: 5 },
+    ]);
+
+    expect(fakeSocket.state.written).toHaveLength(1);
+    expect(sent.map((packet) => packet.deviceId)).toEqual([0, 3, 5]);
+    expect(sent.every((packet) => packet.packetType === PacketType.RGBCONTROLLER_UPDATELEDS)).toBe(
+      true,
+    );
+    expect([...sent[1]!.data]).toEqual([18, 0, 0, 0, 3, 0, 4, 5, 6, 0, 4, 5, 6, 0, 4, 5, 6, 0]);
+    expect([...sent[2]!.data.slice(6)]).toEqual(new Array(5).fill([7, 8, 9, 0]).flat());
+  });
+
+  it('patches the cached frame of a device instead of allocating a new one', async () => {
+    const bytesNew = vi.spyOn(GLib.Bytes, 'new');
+    const sent: Uint8Array[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet.data);
+
+    await client.updateLeds(1, { r: 1, g: 1, b: 1 }, 4);
+    await client.updateLeds(1, { r: 2, g: 2, b: 2 }, 4);
+    await client.updateLeds(1, { r: 3, g: 3, b: 3 }, 5);
+
+    const [first, second, resized] = bytesNew.mock.calls.map(([data]) => data as Uint8Array);
+    expect(second!.buffer).toBe(first!.buffer);
+    expect(resized!.buffer).not.toBe(first!.buffer);
+    expect([...sent[0]!.slice(6, 10)]).toEqual([1, 1, 1, 0]);
+    expect([...sent[1]!.slice(6, 10)]).toEqual([2, 2, 2, 0]);
+    expect(sent[2]).toHaveLength(6 + 5 * 4);
+    bytesNew.mockRestore();
+  });
+
+  it('benchmark: a 30-step transition over four 1,000-LED devices', async () => {
+    const steps = 30;
+    const devices = [0, 1, 2, 3];
+    const ledCount = 1000;
+    const stepColor = (step: number) => ({ r: step, g: 255 - step, b: step * 2 });
+
+    const measure = async (runStep: (step: number) => Promise<void>) => {
+      const bytesNew = vi.spyOn(GLib.Bytes, 'new');
+      const start = performance.now();
+      for (let step = 0; step < steps; step++) {
+        await runStep(step);
+      }
+      const elapsed = performance.now() - start;
+      const buffers = new Set(bytesNew.mock.calls.map(([data]) => (data as Uint8Array).buffer));
+      const result = { writes: bytesNew.mock.calls.length, buffers: buffers.size, elapsed };
+      bytesNew.mockRestore();
+      return result;
+    };
+
+    const legacyWrite = (bytes: Uint8Array) =>
+      new Promise<void>((resolve) =>
+        fakeSocket.connection
+          .get_output_stream()
+          .write_bytes_async(GLib.Bytes.new(bytes), 0, null, () => resolve()),
+      );
+
+    // The previous write path: a fresh payload per device, header and payload written separately
+    const legacy = await measure(async (step) => {
+      const { r, g, b } = stepColor(step);
+      for (const deviceId of devices) {
+        const payload = new Uint8Array(6 + ledCount * 4);
+        const view = new DataView(payload.buffer);
+        view.setUint32(0, payload.length, true);
+        view.setUint16(4, ledCount, true);
+        for (let i = 0; i < ledCount; i++) {
+          payload.set([r, g, b, 0], 6 + i * 4);
+        }
+        const header = client.createHeader(
+          deviceId,
+          PacketType.RGBCONTROLLER_UPDATELEDS,
+          payload.length,
+        );
+        await legacyWrite(new Uint8Array(header));
+        await legacyWrite(payload);
+      }
+    });
+
+    const batched = await measure((step) =>
+      client.updateLedsBatch(
+        devices.map((deviceId) => ({ deviceId, color: stepColor(step), ledCount })),
+      ),
+    );
+
+    console.info(
+      `LED write benchmark: legacy ${legacy.writes} writes / ${legacy.buffers} buffers in ${legacy.elapsed.toFixed(1)}ms, ` +
+        `batched ${batched.writes} writes / ${batched.buffers} buffers in ${batched.elapsed.toFixed(1)}ms`,
+    );
+    expect(legacy.writes).toBe(steps * devices.length * 2);
+    expect(batched.writes).toBe(steps);
+    expect(batched.buffers).toBe(1);
+    expect(batched.buffers).toBeLessThan(legacy.buffers);
+  });
+
+  it('parses the profile list and strips NUL terminators', async () => {
+    fakeSocket.state.onPacket = (packet) => {
+      if (packet.packetType !== PacketType.REQUEST_PROFILE_LIST) return;
+      const names = ['Gaming\0', 'Night\0'].map((name) => new TextEncoder().encode(name));
+      const body = [0, 0, 0, 0, 2, 0];
+      for (const name of names) body.push(name.length, 0, ...name);
+      fakeSocket.push(frame(0, PacketType.REQUEST_PROFILE_LIST, new Uint8Array(body)));
+    };
+
+    await expect(client.getProfileList()).resolves.toEqual(['Gaming', 'Night']);
+  });
+
+  it('sends profile names as bare NUL-terminated strings', async () => {
+    const sent: { packetType: number; data: Uint8Array }[] = [];
+    fakeSocket.state.onPacket = (packet) => sent.push(packet);
+
+    await client.loadProfile('Gaming');
+    await client.saveProfile('Night');
+    await client.deleteProfile('Old');
+
+    expect(sent.map((packet) => packet.packetType)).toEqual([
+      PacketType.REQUEST_LOAD_PROFILE,
+      PacketType.REQUEST_SAVE_PROFILE,
+      PacketType.REQUEST_DELETE_PROFILE,
+    ]);
+    expect(new TextDecoder().decode(sent[0]!.data)).toBe('Gaming\0');
+  });
+
+  it('refuses profile packets on servers older than protocol 2', async () => {
+    client.disconnect();
+    fakeSocket.state.onPacket = (packet) => {
+      if (packet.packetType === PacketType.REQUEST_PROTOCOL_VERSION) {
+        fakeSocket.push(frame(0, PacketType.REQUEST_PROTOCOL_VERSION, uint32(1)));
+      }
+    };
+    client = new NetworkClient(gioPlatform, '127.0.0.1', 6742, 'Test');
+    await client.connect();
+
+    await expect(client.loadProfile('Gaming')).rejects.toThrow(
+      'Profiles require protocol version 2',
+    );
+  });
+
+  it('rejects a request without reply with OpenRGBTimeoutError', async () => {
+    const error = await client.getControllerCount(20).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenRGBTimeoutError);
+    expect((error as OpenRGBTimeoutError).timeoutMs).toBe(20);
+    expect(client.getProtocolVersion()).toBe(4);
+  });
+
+  it('uses the default timeout when none is given per call', async () => {
+    client.setDefaultTimeout(15);
+
+    await expect(client.request(0, PacketType.REQUEST_PROFILE_LIST)).rejects.toThrow(
+      'Timeout waiting for reply to packet 150',
+    );
+  });
+
+  it('cancels a stalled write and drops the connection', async () => {
+    fakeSocket.state.stallWrites = true;
+
+    const error = await client
+      .sendPacket(0, PacketType.SET_CLIENT_NAME, undefined, 20)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenRGBTimeoutError);
+    await expect(client.getControllerCount()).rejects.toThrow('Not connected');
+  });
+
+  it.each([
+    ['updateLeds per LED', (c: NetworkClient) => c.updateLeds(0, [{ r: 1, g: 2, b: 3 }], 20)],
+    ['updateLeds', (c: NetworkClient) => c.updateLeds(0, { r: 1, g: 2, b: 3 }, 4, 20)],
+    [
+      'updateLedsBatch',
+      (c: NetworkClient) =>
+        c.updateLedsBatch([{ deviceId: 0, color: { r: 1, g: 2, b: 3 }, ledCount: 4 }], 20),
+    ],
+    ['updateZoneLeds', (c: NetworkClient) => c.updateZoneLeds(0, 0, [{ r: 1, g: 2, b: 3 }], 20)],
+    ['setDeviceMode', (c: NetworkClient) => c.setDeviceMode(0, 0, directMode, 0, 20)],
+    ['saveMode', (c: NetworkClient) => c.saveMode(0, 0, directMode, 20)],
+    ['loadProfile', (c: NetworkClient) => c.loadProfile('Gaming', 20)],
+  ])('applies a per-call timeout to %s', async (_name, send) => {
+    fakeSocket.state.stallWrites = true;
+
+    const error = await send(client).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenRGBTimeoutError);
+    expect((error as OpenRGBTimeoutError).timeoutMs).toBe(20);
+  });
+
+  it('cancels a stalled connect attempt', async () => {
+    client.disconnect();
+    fakeSocket.state.stallConnect = true;
+
+    await expect(client.connect(20)).rejects.toThrow(OpenRGBTimeoutError);
+  });
+
+  it('abandons a stalled connect attempt on disconnect', async () => {
+    client.disconnect();
+    fakeSocket.state.stallConnect = true;
+
+    const connecting = client.connect(60000);
+    client.disconnect();
+
+    await expect(connecting).rejects.toThrow('Connection closed');
+  });
+
+  it('closes a connection that arrives after disconnect', async () => {
+    client.disconnect();
+    fakeSocket.state.written = [];
+    const close = vi.spyOn(fakeSocket.connection, 'close');
+
+    const connecting = client.connect();
+    client.disconnect();
+
+    await expect(connecting).rejects.toThrow('Connection closed');
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(client.getConnectedAddress()).toBeNull();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fakeSocket.state.written).toEqual([]);
+    close.mockRestore();
+  });
+
+  it('emits disconnected when the server closes the stream', async () => {
+    const disconnected = vi.fn();
+    client.on('disconnected', disconnected);
+
+    fakeSocket.push(new Uint8Array(0));
+    await vi.waitFor(() => expect(disconnected).toHaveBeenCalledTimes(1));
+
+    expect(disconnected.mock.calls[0]?.[0].message).toBe('Connection closed by server');
+  });
+
+  it('does not emit disconnected for an explicit disconnect', () => {
+    const disconnected = vi.fn();
+    client.on('disconnected', disconnected);
+
+    client.disconnect();
+
+    expect(disconnected).not.toHaveBeenCalled();
+  });
+
+  describe('heartbeat', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('probes an idle connection with controller count requests', async () => {
+      const counts: number[] = [];
+      fakeSocket.state.onPacket = (packet) => {
+        if (packet.packetType === PacketType.REQUEST_CONTROLLER_COUNT) {
+          counts.push(packet.packetType);
+          fakeSocket.push(frame(0, PacketType.REQUEST_CONTROLLER_COUNT, uint32(1)));
+        }
+      };
+      vi.useFakeTimers();
+      const disconnected = vi.fn();
+      client.on('disconnected', disconnected);
+
+      client.setHeartbeatInterval(1000);
+      await vi.advanceTimersByTimeAsync(3500);
+
+      expect(counts).toHaveLength(3);
+      expect(disconnected).not.toHaveBeenCalled();
+    });
+
+    it('treats a missed heartbeat reply as a dead connection', async () => {
+      fakeSocket.state.onPacket = () => {};
+      vi.useFakeTimers();
+      const disconnected = vi.fn();
+      client.on('disconnected', disconnected);
+
+      client.setHeartbeatInterval(1000);
+      await vi.advanceTimersByTimeAsync(1000 + 3000 + 10);
+
+      expect(disconnected).toHaveBeenCalledWith(expect.any(OpenRGBTimeoutError));
+      await expect(client.getControllerCount()).rejects.toThrow('Not connected');
+    });
+  });
+
+  it('rejects pending requests when the server closes the stream', async () => {
+    fakeSocket.state.onPacket = () => fakeSocket.push(new Uint8Array(0));
+
+    await expect(client.getControllerCount()).rejects.toThrow('Connection closed by server');
+  });
+
+  it('drops the connection when the stream loses framing', async () => {
+    fakeSocket.state.onPacket = () => fakeSocket.push(new Uint8Array(20).fill(0x41));
+
+    await expect(client.getControllerCount()).rejects.toThrow('Invalid packet magic');
+  });
+});
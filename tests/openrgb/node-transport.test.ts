@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenRGBClient } from '../../src/openrgb/client.js';
+import { PROTOCOL } from '../../src/openrgb/constants.js';
+import { OpenRGBConnectionError } from '../../src/openrgb/errors.js';
+import { NetworkClient } from '../../src/openrgb/network.js';
+import { nodePlatform } from '../../src/openrgb/node-transport.js';
+import type { Timers } from '../../src/openrgb/transport.js';
+import { createVirtualDevice, FakeOpenRGBServer } from './fake-server.js';
+
+// The same protocol code over real loopback sockets, as a Node CLI would run it
+describe('Node transport', () => {
+  let server: FakeOpenRGBServer;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new FakeOpenRGBServer({
+      devices: [createVirtualDevice({ name: 'Strip', ledCount: 30, serial: 'S1' })],
+    });
+    port = await server.listenTcp();
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  describe('OpenRGBClient', () => {
+    let client: OpenRGBClient;
+
+    beforeEach(() => {
+      client = new OpenRGBClient(nodePlatform, '127.0.0.1', port, 'Node');
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    it('should discover devices and paint them over TCP', async () => {
+      await client.connect();
+      const [device] = await client.discoverDevices();
+
+      await client.setAllDevicesColor({ r: 53, g: 132, b: 228, a: 255 });
+
+      expect(server.clientName).toBe('Node');
+      expect(device?.name).toBe('Strip');
+      expect(device?.stableId).toMatch(/^[0-9a-f]{16}$/);
+      await vi.waitFor(() => expect(server.ledUpdates).toHaveLength(1));
+      expect(server.devices[0]?.colors[29]).toEqual({ r: 53, g: 132, b: 228, a: 0 });
+    });
+
+    it('should report a server that closes the socket', async () => {
+      await client.connect();
+      const disconnected = new Promise<Error>((resolve) => client.on('disconnected', resolve));
+
+      server.dropConnection();
+
+      expect((await disconnected).message).toContain('Connection closed by server');
+      expect(client.connected).toBe(false);
+    });
+
+    it('should fail to connect while nothing listens', async () => {
+      server.close();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const error = await client.connect().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OpenRGBConnectionError);
+      expect((error as Error).message).toContain(`Could not connect to 127.0.0.1:${port}`);
+    });
+  });
+
+  it('should run every deadline on the injected timers', async () => {
+    server.close();
+    server = new FakeOpenRGBServer({ protocolVersion: 0 });
+    port = await server.listenTcp();
+
+    const scheduled = new Map<number, { callback: () => void; delayMs: number }>();
+    let nextId = 1;
+    const timers: Timers = {
+      setTimeout: (callback, delayMs) => {
+        scheduled.set(nextId, { callback, delayMs });
+        return nextId++;
+      },
+      clearTimeout: (id) => scheduled.delete(id),
+    };
+    const client = new NetworkClient({ ...nodePlatform, timers }, '127.0.0.1', port, 'Node');
+
+    // An unversioned server never answers, so connect waits on the negotiation deadline
+    const connected = client.connect();
+    await vi.waitFor(() =>
+      expect([...scheduled.values()].map(({ delayMs }) => delayMs)).toEqual([
+        PROTOCOL.VERSION_NEGOTIATION_TIMEOUT,
+      ]),
+    );
+    const [id, negotiation] = [...scheduled][0]!;
+    scheduled.delete(id);
+    negotiation.callback();
+    await connected;
+
+    expect(client.getProtocolVersion()).toBe(0);
+    expect([...scheduled.values()].map(({ delayMs }) => delayMs)).toEqual([
+      PROTOCOL.HEARTBEAT_INTERVAL,
+    ]);
+
+    client.disconnect();
+    expect(scheduled.size).toBe(0);
+  });
+});
@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it } from 'vitest';
-import { BinaryParser } from '../../src/openrgb/parser.js';
+import { VALIDATION } from '../../src/openrgb/constants.js';
+import { OpenRGBParseError } from '../../src/openrgb/errors.js';
+import { BinaryParser, BinaryWriter } from '../../src/openrgb/parser.js';
 
 describe('BinaryParser', () => {
   let buffer: ArrayBuffer;
@@ -241,6 +243,46 @@ describe('BinaryParser', () => {
       expect(parser.hasMoreData()).toBe(false);
       expect(() => parser.readUint32()).toThrow();
     });
+
+    it('should throw OpenRGBParseError with offset and buffer size', () => {
+      parser.offset = buffer.byteLength - 1;
+
+      try {
+        parser.readUint16();
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(OpenRGBParseError);
+        expect(error.offset).toBe(buffer.byteLength - 1);
+        expect(error.bufferSize).toBe(buffer.byteLength);
+      }
+    });
+
+    it('should refuse to start outside the buffer', () => {
+      expect(() => new BinaryParser(new ArrayBuffer(4), 5)).toThrow(OpenRGBParseError);
+    });
+
+    it('should refuse to skip backwards', () => {
+      expect(() => parser.skip(-4)).toThrow('Cannot skip -4 bytes at offset');
+    });
+
+    it('should reject strings longer than MAX_STRING_LENGTH', () => {
+      const data = new ArrayBuffer(2 + VALIDATION.MAX_STRING_LENGTH + 1);
+      new DataView(data).setUint16(0, VALIDATION.MAX_STRING_LENGTH + 1, true);
+
+      expect(() => new BinaryParser(data).readString()).toThrow(
+        `String length ${VALIDATION.MAX_STRING_LENGTH + 1} at offset 0 exceeds limit`,
+      );
+    });
+
+    it('should reject counts above the given limit', () => {
+      const data = new ArrayBuffer(4);
+      new DataView(data).setUint16(0, 11, true);
+
+      expect(new BinaryParser(data).readCount(11, 'LED')).toBe(11);
+      expect(() => new BinaryParser(data).readCount(10, 'LED')).toThrow(
+        'LED count 11 at offset 0 exceeds limit 10',
+      );
+    });
   });
 
   describe('sequential reading operations', () => {
@@ -278,3 +320,30 @@ describe('BinaryParser', () => {
     });
   });
 });
+
+describe('BinaryWriter', () => {
+  it('should write values that BinaryParser reads back', () => {
+    const writer = new BinaryWriter(8);
+    writer.writeUint32(0x12345678);
+    writer.writeUint16(0xabcd);
+    writer.writeString('Hello 🌍');
+    writer.writeRGBColor({ r: 255, g: 128, b: 64, a: 32 });
+
+    const parser = new BinaryParser(writer.toArrayBuffer());
+    expect(parser.readUint32()).toBe(0x12345678);
+    expect(parser.readUint16()).toBe(0xabcd);
+    expect(parser.readString()).toBe('Hello 🌍');
+    // Alpha is not part of the wire format and is always sent as 0
+    expect(parser.readRGBColor()).toEqual({ r: 255, g: 128, b: 64, a: 0 });
+    expect(parser.hasMoreData()).toBe(false);
+  });
+
+  it('should patch a size field after the payload is known', () => {
+    const writer = new BinaryWriter();
+    writer.writeUint32(0);
+    writer.writeString('abc');
+    writer.patchUint32(0, writer.getCurrentOffset());
+
+    expect(new DataView(writer.toArrayBuffer()).getUint32(0, true)).toBe(9);
+  });
+});
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { OpenRGBClient } from '../src/openrgb/client.js';
+import { gioPlatform } from '../src/openrgb/gio-transport.js';
 
 // Mock NetworkClient for deterministic data
 vi.mock('../src/openrgb/network.js', () => {
@@ -20,7 +21,9 @@ vi.mock('../src/openrgb/network.js', () => {
         colors: Array.from({ length: 5 }, () => ({ r: 10, g: 20, b: 30, a: 255 })),
       })),
       updateLeds: vi.fn().mockResolvedValue(undefined),
+      updateLedsBatch: vi.fn().mockResolvedValue(undefined),
       setDeviceMode: vi.fn().mockResolvedValue(undefined),
+      on: vi.fn(),
     })),
   };
 });
@@ -29,7 +32,7 @@ describe('StableId Determinism', () => {
   let client: any;
   beforeEach(async () => {
     vi.clearAllMocks();
-    client = new OpenRGBClient('127.0.0.1', 6742, 'StableID-Test');
+    client = new OpenRGBClient(gioPlatform, '127.0.0.1', 6742, 'StableID-Test');
     await client.connect();
   });
 